@@ -2,4 +2,15 @@ export const META_KEY = "app:validators";
 export const META_OPT_KEY = "app:validators:optional";
 export const META_MARKER_KEY = "app:validators:marker";
 export const META_COERCE_KEY = "app:validators:coerce";
+export const META_COERCE_KINDS_KEY = "app:validators:coerceKinds";
 export const META_TRANSFORM_KEY = "app:validators:transform";
+export const META_SANITIZE_KEY = "app:validators:sanitize";
+export const META_UNKNOWN_KEYS_KEY = "app:validators:unknownKeys";
+export const META_CONDITION_KEY = "app:validators:condition";
+export const META_CROSS_KEY = "app:validators:cross";
+export const META_INVARIANT_KEY = "app:validators:invariant";
+export const META_PARSER_KEY = "app:validators:parser";
+export const META_LITERAL_KEY = "app:validators:literal";
+export const META_ASYNC_KEY = "app:validators:async";
+export const META_ASYNC_COERCE_KEY = "app:validators:asyncCoerce";
+export const META_ASYNC_TRANSFORM_KEY = "app:validators:asyncTransform";
@@ -1,20 +1,143 @@
-import { AbstractCtor, Ctor } from "./types";
-import { assertParsed, parseInto } from "./validation";
+import {
+	AbstractCtor,
+	AsyncValidationOptions,
+	Ctor,
+	ParseResult,
+	PlainOf,
+	ValidationError,
+	ValidationOptions,
+} from "./types";
+import { assertParsed, checkAsIs, parseInto, parseIntoAsync } from "./validation";
+
+function parseNew<T extends object>(
+	ctor: AbstractCtor<T>,
+	plain: unknown,
+	options?: ValidationOptions,
+): ParseResult<T> {
+	const instance = new (ctor as unknown as Ctor<T>)();
+
+	return parseInto(instance, plain as Record<string, unknown>, options);
+}
+
+/**
+ * `parseNew` through the asynchronous pipeline, which also runs asynchronous rules.
+ * Without a `budget` it only yields while waiting on them, so classes without asynchronous rules
+ * parse within the call, as `from` always did.
+ */
+function parseNewAsync<T extends object>(
+	ctor: AbstractCtor<T>,
+	plain: unknown,
+	options: AsyncValidationOptions = {},
+): Promise<ParseResult<T>> {
+	const instance = new (ctor as unknown as Ctor<T>)();
+
+	return parseIntoAsync(instance, plain as Record<string, unknown>, {
+		budget: math.huge,
+		...options,
+	});
+}
+
+/**
+ * Runs the full parse pipeline of `ctor` against `plain` and returns its errors.
+ * The parse targets a bare table with the class metatable, so no constructor runs and
+ * nothing is kept.
+ */
+function checkPlain(
+	ctor: AbstractCtor<object>,
+	plain: unknown,
+	options: ValidationOptions = {},
+): ValidationError[] {
+	const target = setmetatable({}, ctor as unknown as LuaMetatable<object>);
+	const res = parseInto(target, plain as Record<string, unknown>, options);
+	return res.ok ? [] : res.errors;
+}
 
 export function WithFrom<TBase extends AbstractCtor<object>>(Base: TBase) {
 	abstract class WithFromClass extends Base {
+		/** Parses through `parseIntoAsync`, so asynchronous rules run; rejects on invalid input */
 		static async from<TThis extends AbstractCtor<object>>(
 			this: TThis,
-			plain: any,
+			plain: unknown,
+			options?: AsyncValidationOptions,
 		): Promise<InstanceType<TThis>> {
-			const instance = new (this as unknown as Ctor<InstanceType<TThis>>)();
+			return assertParsed(await parseNewAsync(this, plain, options)) as InstanceType<TThis>;
+		}
+
+		/** Like `from`, but resolves to the `parseIntoAsync` result instead of throwing */
+		static safeFrom<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: AsyncValidationOptions,
+		): Promise<ParseResult<InstanceType<TThis>>> {
+			return parseNewAsync(this, plain, options) as Promise<ParseResult<InstanceType<TThis>>>;
+		}
+
+		/** Synchronous `from`; throws on invalid input */
+		static fromSync<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: ValidationOptions,
+		): InstanceType<TThis> {
+			return assertParsed(parseNew(this, plain, options)) as InstanceType<TThis>;
+		}
 
-			const res = parseInto(instance, plain as unknown as Record<string, unknown>);
+		/** Synchronous `safeFrom` */
+		static safeFromSync<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: ValidationOptions,
+		): ParseResult<InstanceType<TThis>> {
+			return parseNew(this, plain, options) as ParseResult<InstanceType<TThis>>;
+		}
 
-			return assertParsed(res) as InstanceType<TThis>;
+		/**
+		 * Type guard: whether `value` passes the validators of this class exactly as it is.
+		 * Coercers, sanitizers and transforms do not run (`{ age: "5" }` fails `@Coerce.Number()
+		 * @IsNumber()`), and neither do asynchronous rules, which the guard cannot wait on.
+		 *
+		 * Narrows to the properties of the class, not to an instance: a plain table that passes
+		 * has no methods. Instances may carry undeclared fields; plain tables follow `unknownKeys`.
+		 */
+		static is<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			value: unknown,
+		): value is PlainOf<InstanceType<TThis>> {
+			if (!typeIs(value, "table")) return false;
+
+			const unknownKeys = value instanceof this ? "passthrough" : undefined;
+			return checkAsIs(() => checkPlain(this, value, { unknownKeys })).size() === 0;
+		}
+
+		/** Errors `from(plain)` would fail with, without constructing or committing an instance */
+		static check(plain: unknown, options?: ValidationOptions): ValidationError[] {
+			return checkPlain(this, plain, options);
 		}
 	}
 	return WithFromClass as unknown as TBase & {
-		from<TThis extends AbstractCtor<object>>(this: TThis, plain: any): Promise<InstanceType<TThis>>;
+		from<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: AsyncValidationOptions,
+		): Promise<InstanceType<TThis>>;
+		safeFrom<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: AsyncValidationOptions,
+		): Promise<ParseResult<InstanceType<TThis>>>;
+		fromSync<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: ValidationOptions,
+		): InstanceType<TThis>;
+		safeFromSync<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			plain: unknown,
+			options?: ValidationOptions,
+		): ParseResult<InstanceType<TThis>>;
+		is<TThis extends AbstractCtor<object>>(
+			this: TThis,
+			value: unknown,
+		): value is PlainOf<InstanceType<TThis>>;
+		check(plain: unknown, options?: ValidationOptions): ValidationError[];
 	};
 }
@@ -1,5 +1,7 @@
-import { Reflect } from "@flamework/core";
+import { RuleOptions, UnknownKeysStrategy, ValidationError, ValidationOptions } from "./types";
 import { validate } from "./validation";
+import { getPlan } from "./plan";
+import { tableShape } from "./shape";
 
 export function slice<T>(arr: T[], start = 0, end_ = arr.size()): T[] {
 	const result: defined[] = [];
@@ -19,14 +21,10 @@ export function slice<T>(arr: T[], start = 0, end_ = arr.size()): T[] {
 	return result as T[];
 }
 
-export function isEmptyTable(value: object): boolean {
-	let count = 0;
-
-	for (const _ of pairs(value)) {
-		count++;
-	}
-
-	return count === 0;
+/** Renders a literal for messages: strings quoted, numbers and booleans as-is */
+export function literalToString(v: unknown) {
+	if (typeIs(v, "string")) return `"${v}"`;
+	return tostring(v);
 }
 
 /** Format nested validation errors into a short string */
@@ -35,39 +33,101 @@ export function formatErrors(errs: ReturnType<typeof validate>) {
 	// Keep it compact: "prop: msg1|msg2; prop2: msg"
 	const parts: string[] = [];
 	for (const e of errs) {
-		parts.push(`${e.property}: ${e.constraints.join(" | ")}`);
+		parts.push(`${e.path}: ${e.constraints.join(" | ")}`);
 	}
 	return parts.join("; ");
 }
 
+/** Path segment for a table key: `name`, `[3]` or `["odd key"]` */
+export function keySegment(key: unknown): string {
+	if (typeIs(key, "string")) {
+		return key.match("^[%a_][%w_]*$")[0] !== undefined ? key : `["${key}"]`;
+	}
+
+	return `[${tostring(key)}]`;
+}
+
+/** Joins a parent path with a relative child path: `a` + `b` -> `a.b`, `a` + `[1]` -> `a[1]` */
+export function joinPath(base: string, path: string): string {
+	if (base === "") return path;
+	if (path === "") return base;
+
+	return path.sub(1, 1) === "[" ? base + path : `${base}.${path}`;
+}
+
+/** Re-roots a tree of errors produced for a nested value under `base` */
+export function rebaseErrors(base: string, errors: ValidationError[]): ValidationError[] {
+	return errors.map((e) => ({
+		...e,
+		path: joinPath(base, e.path),
+		children: rebaseErrors(base, e.children),
+	}));
+}
+
+/** Builds the error node for a single entry (index, key or element) of a collection */
+export function entryError(
+	key: unknown,
+	value: unknown,
+	code: string,
+	message: string,
+	children: ValidationError[] = [],
+): ValidationError {
+	const path = keySegment(key);
+	return {
+		property: tostring(key),
+		path,
+		value,
+		constraints: [message],
+		details: [{ code, args: {}, message }],
+		children: rebaseErrors(path, children),
+	};
+}
+
+/** Whether `t` is an array in Luau terms: 1-based and contiguous (the empty table included) */
 export function isArrayLikeTable(t: object) {
 	if (!typeIs(t, "table")) return false;
 
-	let count = 0;
+	const { kind } = tableShape(t);
+	return kind === "empty" || kind === "array";
+}
 
-	for (const [k] of pairs(t as unknown as object)) {
-		if (!typeIs(k, "number")) return false;
-		const n = k as number;
-		if (math.floor(n) !== n) return false;
-		if (n < 1) return false;
-		count += 1;
-	}
+/** The length of `value` when it is an array-like table, otherwise `undefined` */
+export function arrayLength(value: unknown): number | undefined {
+	if (!typeIs(value, "table")) return undefined;
 
-	for (let i = 1; i <= count; i += 1) {
-		if ((t as unknown as Record<number, unknown>)[i] === undefined) return false;
-	}
+	const { kind, length } = tableShape(value);
+	return kind === "empty" || kind === "array" ? length : undefined;
+}
 
-	return true;
+/** Declared properties of the class of `obj` */
+export function getAllowedKeys(obj: object) {
+	return getPlan(obj).allowed;
 }
 
-export function isNonArrayTable(value: unknown): value is object {
-	return typeIs(value, "table") && !isArrayLikeTable(value as object);
+/** The call's `unknownKeys` option, else the class default set with `@UnknownKeys`, else `reject` */
+export function getUnknownKeysStrategy(
+	obj: object,
+	options: ValidationOptions,
+): UnknownKeysStrategy {
+	return options.unknownKeys ?? getPlan(obj).unknownKeys ?? "reject";
 }
 
-export function getAllowedKeys(obj: object) {
-	// "declared properties" for the class
-	const props = Reflect.getProperties(obj);
-	const allowed = new Set<string>();
-	for (const p of props) allowed.add(p);
-	return allowed;
+/**
+ * Whether a rule runs for a call requesting the `requested` groups.
+ * Every rule runs when no groups are requested; otherwise only `always` rules and rules
+ * sharing one of them.
+ */
+export function matchesGroups(rule: RuleOptions, requested: string[] | undefined) {
+	if (requested === undefined || rule.always) return true;
+	if (rule.groups === undefined) return false;
+
+	return rule.groups.some((g) => requested.includes(g));
+}
+
+/**
+ * `matchesGroups` for the value-changing steps (coercers, parsers, transforms):
+ * those without groups always run, since the validators rely on their output.
+ */
+export function matchesStepGroups(rule: RuleOptions, requested: string[] | undefined) {
+	return rule.groups === undefined || matchesGroups(rule, requested);
 }
@@ -1,4 +1,6 @@
 export * from "./validators";
 export * from "./validation";
+export * from "./localization";
+export { invalidatePlans } from "./plan";
 export type * from "./types";
 export * from "./from.decorator";
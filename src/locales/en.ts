@@ -0,0 +1,92 @@
+import { LocaleTable } from "../types";
+
+/**
+ * Default (English) messages of the built-in validators, keyed by constraint code.
+ *
+ * This is the last entry of the default fallback chain, and a complete list of the codes
+ * a locale table can translate.
+ */
+export const en: LocaleTable = {
+	// primitives / number / string
+	IsBoolean: "must be a boolean",
+	IsNumber: "must be a number",
+	IsInteger: "must be a integer",
+	Min: "must be >= $min",
+	Max: "must be <= $max",
+	IsString: "must be a string",
+	MinLength: "must have length >= $minLength",
+	MaxLength: "must have length <= $maxLength",
+
+	// objects / arrays / tuples
+	IsObject: "must be an object",
+	UnknownProperty: 'unknown property: "$property"',
+	Nested: "nested validation failed",
+	NestedType: "nested validation failed",
+	CircularReference: "must not contain a circular reference",
+	MaxDepth: "must not be nested deeper than $maxDepth levels",
+	IsArray: "must be an array",
+	ArrayMinSize: "array must have size >= $min",
+	ArrayMaxSize: "array must have size <= $max",
+	ArrayElements: "array elements invalid (at $index: $reason)",
+	ArrayOf: "array elements invalid (at $index: $reason)",
+	IsTuple: (_, args) =>
+		args.reasons !== undefined
+			? `must be a tuple of length ${tostring(args.length)}(${tostring(args.reasons)})`
+			: `must be a tuple of length ${tostring(args.length)}`,
+	TupleLength: "tuple must have length $length",
+
+	// literals
+	IsLiteral: (_, args) =>
+		(args.allowed as unknown[]).size() === 1
+			? `must be ${tostring(args.list)}`
+			: `must be one of ${tostring(args.list)}`,
+	IsTemplateLiteral: "must match template $template",
+
+	// collections
+	IsReadonly: "must be frozen",
+	IsRecord: "must be a record",
+	RecordEntries: 'record entries invalid (at "$key": $reason)',
+	RecordOf: 'record entries invalid (at "$key": $reason)',
+	IsMap: "must be a map",
+	MapEntries: "map entries invalid (at $key: $reason)",
+	MapOf: "map entries invalid (at $key: $reason)",
+	IsSet: "must be a set",
+	SetElements: "set elements invalid (at $element: $reason)",
+
+	// unions
+	Union: (_, args) =>
+		args.closest !== undefined
+			? `must match one of the union variants (closest: ${tostring(args.reasons)})`
+			: `must match one of the union variants (${tostring(args.reasons)})`,
+	ExclusiveUnion: (_, args) =>
+		args.matches === 0
+			? `must match exactly one variant (matched none: ${tostring(args.reasons)})`
+			: `must match exactly one variant (matched ${tostring(args.matches)})`,
+	Intersect: "must satisfy all intersected schemas ($reasons)",
+	DiscriminatedUnion: 'invalid discriminator "$discriminator"',
+	DiscriminatedUnionOf: 'invalid discriminator "$discriminator"',
+
+	// cross-property
+	EqualsProperty: "must equal $other",
+	LessThanProperty: (_, args) =>
+		`must be ${args.inclusive === true ? "<=" : "<"} ${tostring(args.other)}`,
+	GreaterThanProperty: (_, args) =>
+		`must be ${args.inclusive === true ? ">=" : ">"} ${tostring(args.other)}`,
+
+	// Roblox datatypes
+	IsVector3: "must be a Vector3",
+	IsVector2: "must be a Vector2",
+	IsCFrame: "must be a CFrame",
+	IsColor3: "must be a Color3",
+	IsUDim2: "must be a UDim2",
+	IsBrickColor: "must be a BrickColor",
+	IsNumberRange: "must be a NumberRange",
+	IsNumberSequence: "must be a NumberSequence",
+	IsFiniteVector: "must be a vector with finite components",
+	VectorMagnitudeMax: "magnitude must be <= $max",
+	VectorWithinRegion: "must be within ($min) and ($max)",
+	Color3Range: "must be a color between ($min) and ($max)",
+
+	// asynchronous rules
+	Timeout: "timed out after $timeout seconds",
+};
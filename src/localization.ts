@@ -0,0 +1,142 @@
+import { formatValue, resolveMessage } from "./messages";
+import { en } from "./locales/en";
+import {
+	ConstraintArgs,
+	LocaleTable,
+	MessageFactory,
+	MessageTranslator,
+	ValidatorContext,
+} from "./types";
+
+/** The subset of a Roblox `Translator` used by `fromTranslator` */
+export interface TranslatorLike {
+	FormatByKey(key: string, args?: object): string;
+}
+
+const tables = new Map<string, LocaleTable>([["en", en]]);
+const translators = new Map<string, MessageTranslator>();
+
+let currentLocale = "en";
+let fallbackLocales = ["en"];
+
+function normalizeLocale(locale: string) {
+	return locale.lower().gsub("_", "-")[0];
+}
+
+/**
+ * Adds (or overrides) messages for a locale.
+ *
+ * Entries are keyed by constraint code and may be templates or factories,
+ * exactly like the `message` argument of a validator.
+ *
+ * ```ts
+ * registerLocale("sv", { Min: "måste vara minst $min", IsString: "måste vara en sträng" });
+ * ```
+ */
+export function registerLocale(locale: string, messages: LocaleTable) {
+	const key = normalizeLocale(locale);
+	const entries = tables.get(key) ?? {};
+
+	for (const [code, message] of pairs(messages)) {
+		entries[code as string] = message;
+	}
+
+	tables.set(key, entries);
+}
+
+/**
+ * Registers a translator consulted for `locale` when its table has no entry for a code.
+ * Return `undefined` from the translator to fall through to the next locale.
+ */
+export function registerTranslator(locale: string, translator: MessageTranslator) {
+	translators.set(normalizeLocale(locale), translator);
+}
+
+/**
+ * Adapts a Roblox `Translator` (or anything with a compatible `FormatByKey`) into a
+ * `MessageTranslator`.
+ *
+ * Codes are looked up as `${keyPrefix}${code}` and formatted with the constraint arguments
+ * plus `property` and `value`, so localization table entries can use `{min}`, `{property}`, ...
+ * Missing keys fall through to the next locale.
+ */
+export function fromTranslator(
+	translator: TranslatorLike,
+	keyPrefix = "Validation.",
+): MessageTranslator {
+	return (code, ctx, args) => {
+		const formatArgs: Record<string, unknown> = {};
+		for (const [k, v] of pairs(args)) formatArgs[k as string] = formatValue(v);
+
+		formatArgs.property = ctx.property;
+		formatArgs.value = formatValue(ctx.value);
+
+		const [ok, message] = pcall(() => translator.FormatByKey(`${keyPrefix}${code}`, formatArgs));
+		return ok ? message : undefined;
+	};
+}
+
+/** Sets the locale used when a call does not pass one in its options */
+export function setLocale(locale: string) {
+	currentLocale = normalizeLocale(locale);
+}
+
+export function getLocale() {
+	return currentLocale;
+}
+
+/**
+ * Sets the locales tried, in order, after the requested locale and its base language.
+ * `en` always stays the last resort, so messages never degrade to their bare code.
+ */
+export function setFallbackLocales(locales: string[]) {
+	fallbackLocales = locales.map(normalizeLocale);
+}
+
+/** `pt-br` -> `["pt-br", "pt", ...fallbacks, "en"]`, without duplicates */
+function localeChain(locale: string) {
+	const chain: string[] = [];
+	const add = (l: string) => {
+		if (!chain.includes(l)) chain.push(l);
+	};
+
+	const requested = normalizeLocale(locale);
+	add(requested);
+
+	const [base] = requested.match("^(%a+)%-");
+	if (base !== undefined) add(base as string);
+
+	for (const l of fallbackLocales) add(l);
+	add("en");
+
+	return chain;
+}
+
+/**
+ * Looks up the message for `code` along the locale chain of `ctx.options.locale`
+ * (or the global locale) and resolves it against `ctx` and `args`.
+ */
+export function translate(
+	code: string,
+	ctx: ValidatorContext,
+	args: ConstraintArgs = {},
+): string | undefined {
+	for (const locale of localeChain(ctx.options.locale ?? currentLocale)) {
+		const message = tables.get(locale)?.[code];
+		if (message !== undefined) return resolveMessage(message, ctx, args);
+
+		const translated = translators.get(locale)?.(code, ctx, args);
+		if (translated !== undefined) return translated;
+	}
+
+	return undefined;
+}
+
+/**
+ * Message factory that resolves the locale entry for `code` at failure time.
+ * This is the default `message` of every built-in validator; use it in custom validators
+ * to make their messages localizable too.
+ */
+export function localized(code: string): MessageFactory {
+	return (ctx, args) => translate(code, ctx, args) ?? code;
+}
@@ -0,0 +1,51 @@
+import { ConstraintArgs, ValidationMessage, ValidatorContext } from "./types";
+
+/** Renders a value for use inside a message */
+export function formatValue(value: unknown): string {
+	if (typeIs(value, "string")) return value;
+	return tostring(value);
+}
+
+/** A validator with exactly one argument can refer to it as `$constraint1` */
+function singleArgOrder(args: ConstraintArgs) {
+	const names: string[] = [];
+	for (const [k] of pairs(args)) names.push(k as string);
+
+	return names.size() === 1 ? names : [];
+}
+
+/**
+ * Resolves a message at failure time.
+ *
+ * Factories are called with the failing context and the constraint arguments.
+ * Templates have their placeholders replaced:
+ * - `$property` - the property being validated
+ * - `$value` - the (coerced) value that failed
+ * - `$<arg>` - any constraint argument by name (`$min`, `$maxLength`, ...)
+ * - `$constraint1`, `$constraint2`, ... - the arguments in declaration order
+ *
+ * Unknown placeholders are left untouched.
+ */
+export function resolveMessage(
+	message: ValidationMessage,
+	ctx: ValidatorContext,
+	args: ConstraintArgs = {},
+	argOrder = singleArgOrder(args),
+): string {
+	if (typeIs(message, "function")) return message(ctx, args);
+
+	const [resolved] = message.gsub("%$([%a_][%w_]*)", (name) => {
+		if (name === "property") return ctx.property;
+		if (name === "value") return formatValue(ctx.value);
+
+		const [position] = name.match("^constraint(%d+)$");
+		if (position !== undefined) {
+			const key = argOrder[(tonumber(position) ?? 0) - 1];
+			return key !== undefined ? formatValue(args[key]) : undefined;
+		}
+
+		return args[name] !== undefined ? formatValue(args[name]) : undefined;
+	});
+
+	return resolved;
+}
@@ -0,0 +1,63 @@
+import { ValidationFailure, ValidationOptions } from "./types";
+import { localized } from "./localization";
+
+/** Default of `ValidationOptions.maxDepth` */
+export const DEFAULT_MAX_DEPTH = 32;
+
+/** Input tables currently being validated or parsed, from the root down to the current one */
+let ancestors = new Set<object>();
+let depth = 0;
+
+/**
+ * Runs `run` with `value` marked as being processed, so nested values can detect cycles
+ * back to it and how deep they are. Used by `validate`, `parseInto` and object schemas.
+ */
+export function enterTable<T>(value: unknown, run: () => T): T {
+	if (!typeIs(value, "table") || ancestors.has(value)) return run();
+
+	ancestors.add(value);
+	depth += 1;
+	try {
+		return run();
+	} finally {
+		ancestors.delete(value);
+		depth -= 1;
+	}
+}
+
+/**
+ * Why the nested table `value` must not be descended into, if it must not:
+ * it is one of its own ancestors, or it lies deeper than `options.maxDepth` levels
+ * below the root.
+ */
+export function nestingFailure(
+	value: object,
+	options: ValidationOptions,
+): ValidationFailure | undefined {
+	if (ancestors.has(value)) {
+		return { message: localized("CircularReference"), code: "CircularReference" };
+	}
+
+	const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+	if (depth > maxDepth) {
+		return { message: localized("MaxDepth"), code: "MaxDepth", args: { maxDepth } };
+	}
+
+	return undefined;
+}
+
+/**
+ * Puts the tables of the running validation aside while it is suspended, so validations started
+ * in the meantime start at the root. Returns the function restoring them.
+ */
+export function suspendNesting() {
+	const saved = ancestors;
+	const savedDepth = depth;
+	ancestors = new Set();
+	depth = 0;
+
+	return () => {
+		ancestors = saved;
+		depth = savedDepth;
+	};
+}
@@ -0,0 +1,120 @@
+import { Reflect } from "@flamework/core";
+import {
+	CoerceFn,
+	ObjectCheck,
+	ParserFn,
+	SanitizeFn,
+	TransformFn,
+	UnknownKeysStrategy,
+	ValidateIfCondition,
+	ValidatorFn,
+} from "./types";
+import {
+	META_ASYNC_COERCE_KEY,
+	META_ASYNC_KEY,
+	META_ASYNC_TRANSFORM_KEY,
+	META_COERCE_KEY,
+	META_CONDITION_KEY,
+	META_CROSS_KEY,
+	META_INVARIANT_KEY,
+	META_KEY,
+	META_MARKER_KEY,
+	META_OPT_KEY,
+	META_PARSER_KEY,
+	META_SANITIZE_KEY,
+	META_TRANSFORM_KEY,
+	META_UNKNOWN_KEYS_KEY,
+} from "./constants";
+
+/** The pipeline of one decorated property, as registered by its decorators */
+export interface PropertyPlan {
+	property: string;
+	/** `@ValidateIf` conditions */
+	conditions?: ValidateIfCondition[];
+	/** Run in order, each on the output of the previous one */
+	coercers: CoerceFn[];
+	/** Whether `coercers` include asynchronous ones (`Coerce.CustomAsync`) */
+	asyncCoercers: boolean;
+	sanitizers: SanitizeFn[];
+	optional: boolean;
+	parser?: ParserFn;
+	validators: ValidatorFn[];
+	/** Run once `validators` passed; they wait on promises (`ValidateByAsync`) */
+	asyncValidators: ValidatorFn[];
+	transforms: TransformFn[];
+	/** Whether `transforms` include asynchronous ones (`Transform.CustomAsync`) */
+	asyncTransforms: boolean;
+	/** Validators of the cross-property pass */
+	crossValidators?: ValidatorFn[];
+}
+
+/** Everything `validate` and `parseInto` read from the metadata of a class, read once */
+export interface ValidationPlan {
+	/** Every declared property; keys of a parse input outside it are unknown */
+	allowed: Set<string>;
+	/** Decorated properties, in `Reflect.getProperties` order */
+	properties: PropertyPlan[];
+	invariants: ObjectCheck[];
+	/** Class default set with `@UnknownKeys` */
+	unknownKeys?: UnknownKeysStrategy;
+}
+
+/** Plans by class; weak so classes created at runtime can still be collected */
+let plans = new WeakMap<object, ValidationPlan>();
+
+function compilePlan(target: object): ValidationPlan {
+	const allowed = new Set<string>();
+	const properties: PropertyPlan[] = [];
+
+	for (const property of Reflect.getProperties(target)) {
+		allowed.add(property);
+		if (!Reflect.hasMetadata(target, META_MARKER_KEY, property)) continue;
+
+		properties.push({
+			property,
+			conditions: Reflect.getMetadata(target, META_CONDITION_KEY, property),
+			coercers: Reflect.getMetadata(target, META_COERCE_KEY, property) ?? [],
+			asyncCoercers: Reflect.hasMetadata(target, META_ASYNC_COERCE_KEY, property),
+			sanitizers: Reflect.getMetadata(target, META_SANITIZE_KEY, property) ?? [],
+			optional: Reflect.getMetadata<boolean>(target, META_OPT_KEY, property) ?? false,
+			parser: Reflect.getMetadata(target, META_PARSER_KEY, property),
+			validators: Reflect.getMetadata(target, META_KEY, property) ?? [],
+			asyncValidators: Reflect.getMetadata(target, META_ASYNC_KEY, property) ?? [],
+			transforms: Reflect.getMetadata(target, META_TRANSFORM_KEY, property) ?? [],
+			asyncTransforms: Reflect.hasMetadata(target, META_ASYNC_TRANSFORM_KEY, property),
+			crossValidators: Reflect.getMetadata(target, META_CROSS_KEY, property),
+		});
+	}
+
+	return {
+		allowed,
+		properties,
+		invariants: Reflect.getMetadata(target, META_INVARIANT_KEY) ?? [],
+		unknownKeys: Reflect.getMetadata(target, META_UNKNOWN_KEYS_KEY),
+	};
+}
+
+/**
+ * The plan for `obj`, compiled on first use and cached per class (the metatable of `obj`).
+ * Tables without a class metatable are compiled on every call.
+ */
+export function getPlan(obj: object): ValidationPlan {
+	const owner = getmetatable(obj);
+	if (!typeIs(owner, "table")) return compilePlan(obj);
+
+	let plan = plans.get(owner);
+	if (plan === undefined) {
+		plan = compilePlan(owner);
+		plans.set(owner, plan);
+	}
+
+	return plan;
+}
+
+/**
+ * Drops every compiled plan. The built-in decorators call this whenever they define metadata;
+ * call it yourself after writing validation metadata with `Reflect.defineMetadata` directly.
+ */
+export function invalidatePlans() {
+	plans = new WeakMap();
+}
@@ -0,0 +1,110 @@
+import { AsyncValidationOptions, ValidationMessage, ValidationScheduler } from "./types";
+import { suspendNesting } from "./nesting";
+import { suspendShapes } from "./shape";
+import { resolveMessage } from "./messages";
+import { localized } from "./localization";
+
+/** Default of `AsyncValidationOptions.budget`, in seconds */
+export const DEFAULT_BUDGET = 0.002;
+
+/** Default of `AsyncRuleOptions.timeout`, in seconds */
+export const DEFAULT_RULE_TIMEOUT = 10;
+
+/** Measures with `os.clock` and yields until the next frame */
+export const frameScheduler: ValidationScheduler = {
+	clock() {
+		return os.clock();
+	},
+	yield() {
+		task.wait();
+	},
+};
+
+interface Budget {
+	scheduler: ValidationScheduler;
+	seconds: number;
+	deadline: number;
+}
+
+/** Budget of the async run in progress; `undefined` while running synchronously */
+let budget: Budget | undefined;
+
+/**
+ * Runs `pause` with the state of the running validation put aside and restores it afterwards,
+ * so whatever runs while this one is suspended (including other validations) is unaffected.
+ */
+export function suspend<T>(pause: () => T): T {
+	const current = budget;
+	const resumeNesting = suspendNesting();
+	const resumeShapes = suspendShapes();
+	budget = undefined;
+
+	try {
+		return pause();
+	} finally {
+		budget = current;
+		resumeShapes();
+		resumeNesting();
+	}
+}
+
+/**
+ * Yields through the scheduler of the running async validation once its budget is spent.
+ * Called between properties and collection entries; a no-op for synchronous runs.
+ */
+export function checkpoint() {
+	const current = budget;
+	if (current === undefined || current.scheduler.clock() < current.deadline) return;
+
+	suspend(() => {
+		current.scheduler.yield();
+	});
+	current.deadline = current.scheduler.clock() + current.seconds;
+}
+
+/** Runs `run` with `checkpoint` yielding according to `options.budget` and `options.scheduler` */
+export function withBudget<T>(options: AsyncValidationOptions, run: () => T): T {
+	const scheduler = options.scheduler ?? frameScheduler;
+	const seconds = options.budget ?? DEFAULT_BUDGET;
+
+	const previous = budget;
+	budget = { scheduler, seconds, deadline: scheduler.clock() + seconds };
+	try {
+		return run();
+	} finally {
+		budget = previous;
+	}
+}
+
+/**
+ * Whether asynchronous rules can wait here, i.e. under `validateAsync` or `parseIntoAsync`.
+ * Synchronous entrypoints cannot, so the rules skip themselves there.
+ */
+export function canAwait() {
+	return budget !== undefined;
+}
+
+/**
+ * Waits for the promise of an asynchronous rule with the running validation suspended.
+ * Returns `undefined` if it does not settle within `timeout` seconds and rethrows rejections.
+ * Only async runs can wait: check `canAwait` before starting the work behind `promise`.
+ */
+export function awaitRule<T>(promise: Promise<T>, timeout: number): { value: T } | undefined {
+	const current = budget;
+	if (current === undefined) {
+		error("awaitRule called outside of an asynchronous validation run");
+	}
+
+	const [ok, value] = suspend(() => promise.timeout(timeout).await());
+	current.deadline = current.scheduler.clock() + current.seconds;
+
+	if (ok) return { value };
+	if (Promise.Error.isKind(value, Promise.Error.Kind.TimedOut)) return undefined;
+
+	error(value, 0);
+}
+
+/** Failure message of an asynchronous rule that did not settle in time */
+export function timedOut(timeout: number): ValidationMessage {
+	return (ctx) => resolveMessage(localized("Timeout"), ctx, { timeout });
+}
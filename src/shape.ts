@@ -0,0 +1,89 @@
+/**
+ * How the keys of a table are laid out:
+ * - `empty`: no keys
+ * - `array`: keys `1..length`, without holes
+ * - `record`: only string keys
+ * - `map`: anything else (non-string keys, holes, mixed keys)
+ */
+export type TableShapeKind = "empty" | "array" | "record" | "map";
+
+export interface TableShape {
+	kind: TableShapeKind;
+	/** Number of keys (for arrays, the array length) */
+	length: number;
+}
+
+/** Shapes of the tables classified during the current `validate` / `parseInto` run */
+let shapes: WeakMap<object, TableShape> | undefined;
+
+function classify(t: object): TableShape {
+	let length = 0;
+	let maxIndex = 0;
+	let indices = true;
+	let strings = true;
+
+	for (const [k] of pairs(t)) {
+		length += 1;
+
+		if (typeIs(k, "string")) {
+			indices = false;
+			continue;
+		}
+
+		strings = false;
+		if (indices && typeIs(k, "number") && k >= 1 && math.floor(k) === k) {
+			maxIndex = math.max(maxIndex, k);
+		} else {
+			indices = false;
+		}
+	}
+
+	if (length === 0) return { kind: "empty", length };
+	// `length` distinct positive integers up to `length` are exactly 1..length
+	if (indices && maxIndex === length) return { kind: "array", length };
+
+	return { kind: strings ? "record" : "map", length };
+}
+
+/**
+ * Classifies `t` in a single traversal. Within a run the result is cached, so every
+ * collection validator on a property shares one traversal of the value.
+ */
+export function tableShape(t: object): TableShape {
+	if (shapes === undefined) return classify(t);
+
+	let shape = shapes.get(t);
+	if (shape === undefined) {
+		shape = classify(t);
+		shapes.set(t, shape);
+	}
+
+	return shape;
+}
+
+/** Drops the cached shape of `value`, after a coercer or transform may have changed it */
+export function forgetShape(value: unknown) {
+	if (shapes !== undefined && typeIs(value, "table")) shapes.delete(value);
+}
+
+/** Runs `run` with shapes cached until the outermost run returns */
+export function withShapeCache<T>(run: () => T): T {
+	if (shapes !== undefined) return run();
+
+	shapes = new WeakMap();
+	try {
+		return run();
+	} finally {
+		shapes = undefined;
+	}
+}
+
+/** Puts the shape cache aside while its run is suspended; returns the function restoring it */
+export function suspendShapes() {
+	const saved = shapes;
+	shapes = undefined;
+
+	return () => {
+		shapes = saved;
+	};
+}
@@ -1,25 +1,246 @@
-export type ValidatorFn = (value: unknown, ctx: ValidatorContext) => string | undefined;
+/**
+ * A failed check that carries more than a message.
+ *
+ * Composite validators (`Nested`, `Union`, `ArrayElements`, ...) return this so the
+ * pipeline can attach the failures of the inner values as `children` of the property error.
+ * Child paths are relative to the property being validated; the pipeline rebases them.
+ */
+export interface ValidationFailure {
+	message: ValidationMessage;
+	/** Stable constraint code; `ValidateBy` fills it in from the validator name */
+	code?: string;
+	args?: ConstraintArgs;
+	/** Names of `args` in declaration order, backing the `$constraint1..N` placeholders */
+	argOrder?: string[];
+	children?: ValidationError[];
+}
+
+export type ValidatorResult = ValidationMessage | ValidationFailure | undefined;
+
+export type ValidatorFn = (value: unknown, ctx: ValidatorContext) => ValidatorResult;
 
 export type CoerceFn = (
 	value: unknown,
 	ctx: ValidatorContext,
-) => { ok: true; value: unknown } | { ok: false; message: string };
+) => { ok: true; value: unknown } | { ok: false; message: ValidationMessage };
+
+/**
+ * What a built-in coercer turns values into, to reject combinations that can never both pass
+ * (e.g. `@Coerce.Number()` after `@Coerce.Boolean()`). `default` marks `@Coerce.Default`.
+ */
+export type CoercerKind = "string" | "number" | "boolean" | "table" | "default";
+
+/**
+ * Normalizes a value after coercion and before validation (`Sanitize.*`). Cannot fail: values
+ * it does not apply to are returned unchanged for the validators to judge.
+ */
+export type SanitizeFn = (value: unknown, ctx: ValidatorContext) => unknown;
+
+/** Asynchronous counterparts; see `ValidateByAsync`, `Coerce.CustomAsync` and `Transform.CustomAsync` */
+export type AsyncValidatorFn = (value: unknown, ctx: ValidatorContext) => Promise<ValidatorResult>;
+export type AsyncCoerceFn = (
+	value: unknown,
+	ctx: ValidatorContext,
+) => Promise<ReturnType<CoerceFn>>;
+export type AsyncTransformFn = (
+	value: unknown,
+	ctx: ValidatorContext,
+) => Promise<ReturnType<TransformFn>>;
+
+/**
+ * Runs between coercion and validation and may replace the value, e.g. turn a plain table
+ * into a DTO instance (`@NestedType`). Fails like a validator.
+ */
+export type ParserFn = (
+	value: unknown,
+	ctx: ValidatorContext,
+) => { ok: true; value: unknown } | { ok: false; failure: ValidationFailure };
 
 export interface ValidatorContext {
 	object: object;
 	property: string;
 	value: unknown;
+	/** Options of the `validate` / `parseInto` call this check runs under */
+	options: ValidationOptions;
+}
+
+/**
+ * What `parseInto` does with keys of the input that no decorated property declares:
+ * - `reject`: report them as `UnknownProperty` errors (default)
+ * - `strip`: drop them silently
+ * - `passthrough`: copy them onto the instance as-is
+ */
+export type UnknownKeysStrategy = "reject" | "strip" | "passthrough";
+
+/** Per-call options of `validate`, `parseInto` and friends */
+export interface ValidationOptions {
+	/** Stop at the first property that fails (all of its constraints are still reported) */
+	abortEarly?: boolean;
+	/** Stop once this many properties have failed */
+	maxErrors?: number;
+	/** Unknown key handling for `parseInto` and object schemas of unions; defaults to `reject` */
+	unknownKeys?: UnknownKeysStrategy;
+	/** Treat `nil` properties as optional: skip their coercion, validation and transforms */
+	skipMissingProperties?: boolean;
+	/**
+	 * Only run rules tagged with one of these groups (and rules marked `always`).
+	 * When omitted every rule runs; when set, validators without groups are skipped
+	 * (coercers and transforms without groups still run).
+	 */
+	groups?: string[];
+	/** Locale used to resolve default messages; falls back to the global locale (`setLocale`) */
+	locale?: string;
+	/** How many levels of nested objects below the root are descended into; defaults to 32 */
+	maxDepth?: number;
+}
+
+/** Decides when and how a `validateAsync` / `parseIntoAsync` run yields */
+export interface ValidationScheduler {
+	/** Current time in seconds, used to measure the step budget */
+	clock(): number;
+	/** Suspends the running validation until it may continue (e.g. until the next frame) */
+	yield(): void;
 }
 
+export interface AsyncValidationOptions extends ValidationOptions {
+	/** Seconds a run may work before it yields; defaults to 0.002 */
+	budget?: number;
+	/** Defaults to `os.clock` and `task.wait()` */
+	scheduler?: ValidationScheduler;
+}
+
+/**
+ * Condition of `@ValidateIf`. `obj` holds the values being validated: the object itself for
+ * `validate`, the staged (not yet committed) values for `parseInto`.
+ */
+export type ValidateIfCondition = (obj: Record<string, unknown>, value: unknown) => boolean;
+
 export type TransformFn = (
 	value: unknown,
 	ctx: ValidatorContext,
-) => { ok: true; value: unknown } | { ok: false; message: string };
+) => { ok: true; value: unknown } | { ok: false; message: ValidationMessage };
+
+/** Arguments a validator was configured with, e.g. `{ min: 0 }` for `@Min(0)` */
+export type ConstraintArgs = Record<string, unknown>;
+
+/** Builds a message at failure time from the failing context and the constraint arguments */
+export type MessageFactory = (ctx: ValidatorContext, args: ConstraintArgs) => string;
+
+/**
+ * A failure message, resolved when the check fails rather than when the decorator runs.
+ *
+ * Either a template such as `"$property must be at least $constraint1, got $value"`
+ * or a `MessageFactory`. See `resolveMessage` for the supported placeholders.
+ */
+export type ValidationMessage = string | MessageFactory;
+
+/** Messages of one locale, keyed by constraint code */
+export type LocaleTable = Record<string, ValidationMessage>;
+
+/**
+ * Produces the message for a constraint code in one locale,
+ * or `undefined` to fall through to the next locale of the chain.
+ */
+export type MessageTranslator = (
+	code: string,
+	ctx: ValidatorContext,
+	args: ConstraintArgs,
+) => string | undefined;
+
+/** Validation groups a rule belongs to; see `ValidationOptions.groups` */
+export interface RuleOptions {
+	groups?: string[];
+	/** Run the rule whatever groups the call requests */
+	always?: boolean;
+}
+
+/** Accepted in place of the `message` argument of the built-in validators */
+export interface ValidatorOptions extends RuleOptions {
+	message?: ValidationMessage;
+}
+
+export interface ValidateByOptions extends RuleOptions {
+	/**
+	 * Names of the constraint arguments in declaration order, for `$constraint1..N`.
+	 * Defaults to the argument name when the validator has exactly one.
+	 */
+	argOrder?: string[];
+	/**
+	 * Run once every property passed its own validators, with `ctx.object` holding the final
+	 * values of all properties (the staged values during `parseInto`)
+	 */
+	crossProperty?: boolean;
+}
+
+export interface AsyncRuleOptions extends RuleOptions {
+	/** Seconds to wait for the rule before failing with `Timeout`; defaults to 10 */
+	timeout?: number;
+}
+
+export interface ValidateByAsyncOptions extends ValidateByOptions, AsyncRuleOptions {}
+
+/** Options of `LessThanProperty` / `GreaterThanProperty` */
+export interface PropertyComparisonOptions extends ValidatorOptions {
+	/** Also accept equal values (`<=` / `>=`) */
+	inclusive?: boolean;
+}
+
+/** Options of `@Union` */
+export interface UnionOptions extends ValidatorOptions {
+	/**
+	 * When no variant matches, report only the closest one (see `@Union`) instead of
+	 * the errors of every variant
+	 */
+	bestMatch?: boolean;
+}
+
+/** A variant that did not match, as listed in the `variants` argument of a `Union` failure */
+export interface UnionVariantFailure {
+	/** 0-based position of the variant in the decorator arguments */
+	variant: number;
+	message: string;
+	/** Errors of the variant, with paths relative to the union property */
+	errors: ValidationError[];
+}
+
+/** Check of `@Invariant`; `obj` holds the final values of all properties */
+export type InvariantFn = (obj: Record<string, unknown>) => ValidationMessage | undefined;
+
+export interface InvariantOptions extends RuleOptions {
+	/** Report the failure on this property instead of the class */
+	property?: string;
+	/** Constraint code reported in `details`; defaults to `Invariant` */
+	code?: string;
+}
+
+/** A class-level check as stored by `@Invariant` */
+export type ObjectCheck = (
+	values: Record<string, unknown>,
+	options: ValidationOptions,
+) => ValidationError | undefined;
+
+/**
+ * Machine-readable form of a failed constraint.
+ *
+ * `code` is stable across releases (`"Min"`, `"IsString"`, `"ArrayMaxSize"`, ...) so it can be
+ * used for localization and analytics instead of matching on `message`.
+ */
+export interface ConstraintDetail {
+	code: string;
+	args: ConstraintArgs;
+	message: string;
+}
 
 export interface ValidationError {
 	property: string;
+	/** Full path from the validated root, e.g. `loadout.weapons[3].ammo` */
+	path: string;
 	value: unknown;
 	constraints: string[];
+	/** Same failures as `constraints`, in the same order, with their codes and arguments */
+	details: ConstraintDetail[];
+	/** Failures of nested values (child DTOs, array elements, record entries, ...) */
+	children: ValidationError[];
 }
 
 export type Placeholder = "string" | "number" | "int" | "boolean";
@@ -28,7 +249,13 @@ export type TupleElementValidator = (value: unknown, index: number) => string |
 
 export type SchemaLike =
 	| ((value: unknown, ctx: ValidatorContext) => string | undefined)
-	| { new (): object };
+	| { new (): object }
+	| LazySchema;
+
+/** Schema resolved each time it is used, created with `Lazy(() => Schema)` */
+export interface LazySchema {
+	readonly lazySchema: () => SchemaLike;
+}
 
 /**
  * Builds an **exclusive-or (XOR)** type between two object types `T` and `U`.
@@ -152,6 +379,48 @@ export type Discriminated<D extends PropertyKey, M extends Record<PropertyKey, o
 	[K in keyof M]: M[K] & Record<D, K>;
 }[keyof M];
 
+/**
+ * Variant map of a typed `DiscriminatedUnion<D, M>(...)`: exactly one class per variant of `M`,
+ * each constructing that variant. Missing, extra or mismatched classes fail to compile.
+ *
+ * ```ts
+ * type Vehicles = { car: CarDto; bike: BikeDto };
+ *
+ * // Error: property 'bike' is missing
+ * @DiscriminatedUnion<"type", Vehicles>("type", { car: CarDto })
+ * ```
+ */
+export type DiscriminatedMap<M extends Record<string, object>> = {
+	[K in keyof M]: new () => M[K];
+};
+
+/**
+ * Property type for a `DiscriminatedUnion` built from the variant map `Map` (`typeof map`),
+ * so the annotation is derived from the map and cannot disagree with it.
+ *
+ * ```ts
+ * const vehicles = { car: CarDto, bike: BikeDto };
+ *
+ * class Garage {
+ *   @DiscriminatedUnion("type", vehicles)
+ *   vehicle!: DiscriminatedFrom<"type", typeof vehicles>;
+ * }
+ * ```
+ */
+export type DiscriminatedFrom<
+	D extends PropertyKey,
+	Map extends Record<string, new () => object>,
+> = Discriminated<D, { [K in keyof Map]: InstanceType<Map[K]> }>;
+
+/** Outcome of `parseInto` and the `safeFrom*` statics */
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: ValidationError[] };
+
+/**
+ * The properties of `T` without its methods: what `WithFrom.is` narrows to, since a plain table
+ * that passes the guard has none of the class methods. Nested DTOs keep their class types.
+ */
+export type PlainOf<T> = ExcludeMembers<T, Callback>;
+
 export type Ctor<T = object> = new (...args: any[]) => T;
 export type AbstractCtor<T = object> = abstract new (...args: any[]) => T;
 export type Primitive = string | number | boolean | bigint | symbol | null | undefined;
@@ -1,103 +1,386 @@
-import { Reflect } from "@flamework/core";
-import { CoerceFn, TransformFn, ValidationError, ValidatorContext, ValidatorFn } from "./types";
 import {
-	META_COERCE_KEY,
-	META_KEY,
-	META_MARKER_KEY,
-	META_OPT_KEY,
-	META_TRANSFORM_KEY,
-} from "./constants";
+	AsyncValidationOptions,
+	CoerceFn,
+	ConstraintDetail,
+	Ctor,
+	ParseResult,
+	SanitizeFn,
+	ValidationError,
+	ValidationOptions,
+	ValidatorContext,
+	ValidatorFn,
+} from "./types";
 import { isNil } from "./validators/primitives";
-import { getAllowedKeys } from "./helpers";
+import { entryError, rebaseErrors } from "./helpers";
+import { resolveMessage } from "./messages";
+import { enterTable } from "./nesting";
+import { forgetShape, withShapeCache } from "./shape";
+import { canAwait, checkpoint, withBudget } from "./scheduler";
+import { getPlan, PropertyPlan } from "./plan";
+import { localized } from "./localization";
 
 const HttpService = game.GetService("HttpService");
 
-export function validate(obj: object): ValidationError[] {
-	const errors: ValidationError[] = [];
+/** Code reported for validators registered without a name (raw `pushValidator` calls) */
+const CUSTOM_CODE = "Custom";
 
-	const props = Reflect.getProperties(obj);
+/** Set while `checkAsIs` runs: values are judged exactly as they are, nothing converts them */
+let asIs = false;
 
-	for (const property of props) {
-		if (!Reflect.hasMetadata(obj, META_MARKER_KEY, property)) continue;
+/**
+ * Runs `run` with coercers, sanitizers, transforms and asynchronous rules skipped, nested values
+ * included. Used by `WithFrom.is`, whose guard has to hold for the value it was given.
+ */
+export function checkAsIs<T>(run: () => T): T {
+	const previous = asIs;
+	asIs = true;
+	try {
+		return run();
+	} finally {
+		asIs = previous;
+	}
+}
 
-		let value = (obj as Record<never, never>)[property as never] as unknown;
-		const ctx: ValidatorContext = { object: obj, property, value };
+function propertyError(
+	property: string,
+	value: unknown,
+	details: ConstraintDetail[],
+	children: ValidationError[] = [],
+): ValidationError {
+	const constraints = details.map((d) => d.message);
+	return { property, path: property, value, constraints, details, children };
+}
 
-		// Coerce (pre-parse)
-		const coercer = Reflect.getMetadata<CoerceFn>(obj, META_COERCE_KEY, property);
-		if (coercer !== undefined) {
-			const res = coercer(value, ctx);
-			if (!res.ok) {
-				errors.push({ property, value, constraints: [res.message] });
-				continue;
-			}
+/** Runs every validator of a property and collects their failures and nested errors */
+function runValidators(validators: ValidatorFn[], value: unknown, ctx: ValidatorContext) {
+	const details: ConstraintDetail[] = [];
+	const children: ValidationError[] = [];
 
-			value = res.value;
-			(obj as Record<never, never>)[property as never] = value as never;
+	for (const fn of validators) {
+		const res = fn(value, ctx);
+		if (res === undefined) continue;
 
-			ctx.value = value;
+		if (typeIs(res, "string") || typeIs(res, "function")) {
+			details.push({ code: CUSTOM_CODE, args: {}, message: resolveMessage(res, ctx) });
+			continue;
 		}
 
-		const optional = Reflect.getMetadata<boolean>(obj, META_OPT_KEY, property) ?? false;
-		if (optional && isNil(value)) {
-			continue;
+		const args = res.args ?? {};
+		const message = resolveMessage(res.message, ctx, args, res.argOrder);
+		details.push({ code: res.code ?? CUSTOM_CODE, args, message });
+		for (const child of rebaseErrors(ctx.property, res.children ?? [])) children.push(child);
+	}
+
+	return { details, children };
+}
+
+/** A property whose asynchronous steps wait until every property passed its synchronous rules */
+interface DeferredProperty {
+	prop: PropertyPlan;
+	value: unknown;
+	ctx: ValidatorContext;
+	/** Whether the steps before its asynchronous validators are still to run (asynchronous coercers) */
+	unprepared: boolean;
+}
+
+/** Outcome of the steps of a property: the last value they reached, and what stopped them */
+interface StepResult {
+	value: unknown;
+	error?: ValidationError;
+	/** Nothing else runs for the property (an optional property left `nil`) */
+	settled?: boolean;
+}
+
+/** Whether the whole property waits for the deferred pass, for its asynchronous coercers */
+function defersCoercion(prop: PropertyPlan) {
+	return prop.asyncCoercers && canAwait() && !asIs;
+}
+
+/** Whether the asynchronous validators and the transforms of `prop` run in the deferred pass */
+function defersValidation(prop: PropertyPlan) {
+	return (prop.asyncValidators.size() > 0 || prop.asyncTransforms) && !asIs;
+}
+
+/** Coerces, sanitizes, parses and validates the value of a property: every step before transforms */
+function prepareValue(prop: PropertyPlan, value: unknown, ctx: ValidatorContext): StepResult {
+	const property = prop.property;
+
+	// Coerce (pre-parse)
+	if (prop.coercers.size() > 0 && !asIs) {
+		const res = runCoercers(prop.coercers, value, ctx);
+		if (!res.ok) {
+			const details = [{ code: "Coerce", args: {}, message: resolveMessage(res.message, ctx) }];
+			return { value, error: propertyError(property, value, details) };
+		}
+
+		value = res.value;
+	}
+
+	// Sanitize (normalize what the validators see)
+	if (prop.sanitizers.size() > 0 && !asIs) {
+		value = runSanitizers(prop.sanitizers, value, ctx);
+	}
+
+	if (prop.optional && isNil(value)) return { value, settled: true };
+
+	// Parse (e.g. plain table -> nested DTO instance)
+	const parser = prop.parser;
+	if (parser !== undefined) {
+		const res = parser(value, ctx);
+		if (!res.ok) {
+			const { details, children } = runValidators([() => res.failure], value, ctx);
+			return { value, error: propertyError(property, value, details, children) };
 		}
 
-		// Validate
-		const validators = Reflect.getMetadata<ValidatorFn[]>(obj, META_KEY, property) ?? [];
-		const constraints: string[] = [];
+		value = res.value;
+		ctx.value = value;
+	}
+
+	// Validate (on the coerced value)
+	const { details, children } = runValidators(prop.validators, value, ctx);
+	if (details.size() > 0)
+		return { value, error: propertyError(property, value, details, children) };
+
+	return { value };
+}
+
+/** Runs the transforms of a property in order, each on the output of the previous one */
+function runTransforms(prop: PropertyPlan, value: unknown, ctx: ValidatorContext): StepResult {
+	if (asIs) return { value };
+
+	for (const tf of prop.transforms) {
+		const res = tf(value, ctx);
+		if (!res.ok) {
+			const details = [{ code: "Transform", args: {}, message: resolveMessage(res.message, ctx) }];
+			return { value, error: propertyError(ctx.property, value, details) };
+		}
+
+		value = res.value;
+		forgetShape(value);
+		ctx.value = value;
+	}
+
+	return { value };
+}
+
+/** Finishes a deferred property: its remaining steps, its asynchronous validators, then its transforms */
+function finishDeferred({ prop, value, ctx, unprepared }: DeferredProperty): StepResult {
+	if (unprepared) {
+		const res = prepareValue(prop, value, ctx);
+		if (res.error !== undefined || res.settled) return res;
+
+		value = res.value;
+	}
+
+	const { details, children } = runValidators(prop.asyncValidators, value, ctx);
+	if (details.size() > 0) {
+		return { value, error: propertyError(ctx.property, value, details, children) };
+	}
+
+	return runTransforms(prop, value, ctx);
+}
+
+/**
+ * Runs the coercers of a property in order, each on the output of the previous one.
+ * The first failure stops the chain; `ctx.value` then holds the value it failed on.
+ */
+function runCoercers(coercers: CoerceFn[], value: unknown, ctx: ValidatorContext) {
+	for (const coerce of coercers) {
+		const res = coerce(value, ctx);
+		if (!res.ok) return res;
+
+		value = res.value;
+		forgetShape(value);
+		ctx.value = value;
+	}
+
+	return { ok: true as const, value };
+}
+
+/** Runs the sanitizers of a property in order, each on the output of the previous one */
+function runSanitizers(sanitizers: SanitizeFn[], value: unknown, ctx: ValidatorContext) {
+	for (const sanitize of sanitizers) {
+		value = sanitize(value, ctx);
+		forgetShape(value);
+		ctx.value = value;
+	}
+
+	return value;
+}
+
+/** Whether every `@ValidateIf` condition of the property holds for `values` */
+function conditionsHold(plan: PropertyPlan, values: object, value: unknown) {
+	if (plan.conditions === undefined) return true;
+
+	return plan.conditions.every((condition) => condition(values as Record<string, unknown>, value));
+}
+
+/** Whether `abortEarly` / `maxErrors` say to stop collecting errors */
+function reachedErrorLimit(errors: ValidationError[], options: ValidationOptions) {
+	if (options.abortEarly && errors.size() > 0) return true;
+
+	return options.maxErrors !== undefined && errors.size() >= options.maxErrors;
+}
+
+/**
+ * Second pass, once every property passed: cross-property validators, then class invariants.
+ * `values` holds the final property values (the object itself, or the staged values of a parse).
+ */
+function runObjectChecks(
+	target: object,
+	values: Record<string, unknown>,
+	options: ValidationOptions,
+): ValidationError[] {
+	const errors: ValidationError[] = [];
+	const plan = getPlan(target);
+
+	for (const prop of plan.properties) {
+		if (reachedErrorLimit(errors, options)) return errors;
+
+		const validators = prop.crossValidators;
+		if (validators === undefined) continue;
+
+		const property = prop.property;
+		const value = values[property];
+		if ((prop.optional || options.skipMissingProperties) && isNil(value)) continue;
+		if (!conditionsHold(prop, values, value)) continue;
+
+		const ctx: ValidatorContext = { object: values, property, value, options };
+		const { details, children } = runValidators(validators, value, ctx);
+		if (details.size() > 0) errors.push(propertyError(property, value, details, children));
+	}
+
+	for (const check of plan.invariants) {
+		if (reachedErrorLimit(errors, options)) break;
+
+		const err = check(values, options);
+		if (err !== undefined) errors.push(err);
+	}
+
+	return errors;
+}
+
+/**
+ * Validates `obj` in place: coercion, parsing, validation and transforms per property,
+ * then cross-property checks and invariants.
+ */
+export function validate(obj: object, options: ValidationOptions = {}): ValidationError[] {
+	return withShapeCache(() => enterTable(obj, () => validateObject(obj, options)));
+}
 
-		for (const fn of validators) {
-			const msg = fn(value, ctx);
-			if (msg !== undefined) constraints.push(msg);
+function validateObject(obj: object, options: ValidationOptions): ValidationError[] {
+	const errors: ValidationError[] = [];
+	const deferred: DeferredProperty[] = [];
+
+	for (const prop of getPlan(obj).properties) {
+		if (reachedErrorLimit(errors, options)) break;
+		checkpoint();
+
+		const property = prop.property;
+		const value = (obj as Record<never, never>)[property as never] as unknown;
+		if (options.skipMissingProperties && isNil(value)) continue;
+		if (!conditionsHold(prop, obj, value)) continue;
+
+		const ctx: ValidatorContext = { object: obj, property, value, options };
+		if (defersCoercion(prop)) {
+			deferred.push({ prop, value, ctx, unprepared: true });
+			continue;
 		}
 
-		if (constraints.size() > 0) {
-			errors.push({ property, value, constraints });
+		const prepared = prepareValue(prop, value, ctx);
+		(obj as Record<never, never>)[property as never] = prepared.value as never;
+		if (prepared.error !== undefined) {
+			errors.push(prepared.error);
 			continue;
 		}
 
-		// Transform
-		const transforms = Reflect.getMetadata<TransformFn[]>(obj, META_TRANSFORM_KEY, property) ?? [];
-		for (const tf of transforms) {
-			const res = tf(value, ctx);
-			if (!res.ok) {
-				errors.push({ property, value, constraints: [res.message] });
-				break;
-			}
+		if (prepared.settled) continue;
 
-			value = res.value;
-			(obj as Record<never, never>)[property as never] = value as never;
-			ctx.value = value;
+		if (defersValidation(prop)) {
+			deferred.push({ prop, value: prepared.value, ctx, unprepared: false });
+			continue;
 		}
+
+		// Transform
+		const res = runTransforms(prop, prepared.value, ctx);
+		(obj as Record<never, never>)[property as never] = res.value as never;
+		if (res.error !== undefined) errors.push(res.error);
 	}
 
-	return errors;
+	// Asynchronous steps only wait once every property passed its synchronous rules
+	for (const pending of errors.size() === 0 ? deferred : []) {
+		if (reachedErrorLimit(errors, options)) break;
+		checkpoint();
+
+		const res = finishDeferred(pending);
+		(obj as Record<string, unknown>)[pending.prop.property] = res.value;
+		if (res.error !== undefined) errors.push(res.error);
+	}
+
+	if (errors.size() > 0) return errors;
+
+	return runObjectChecks(obj, obj as Record<string, unknown>, options);
+}
+
+/** The `IsObject` failure of a parse input that is not a table, named after the target's class */
+function notATable(target: object, plain: unknown, options: ValidationOptions) {
+	const property = tostring(getmetatable(target) ?? target);
+	const ctx: ValidatorContext = { object: target, property, value: plain, options };
+
+	return entryError(property, plain, "IsObject", resolveMessage(localized("IsObject"), ctx));
 }
 
 /**
  * Parse + validate + transform from a plain object, but DON'T mutate target until success.
  * This is what WithFrom.from() should use.
  *
- * Keeps extra keys from `plain`
- * but ensures decorated props are coerced/validated/transformed before commit.
+ * Keys of `plain` that are not declared on the target are rejected, stripped or kept
+ * according to `options.unknownKeys` (or the class default set with `@UnknownKeys`);
+ * decorated props are coerced/validated/transformed before commit. A `plain` that is not a
+ * table fails with a single `IsObject` error.
  */
 export function parseInto<T extends object>(
 	target: T,
 	plain: Record<string, unknown>,
-): { ok: true; value: T } | { ok: false; errors: ValidationError[] } {
+	options: ValidationOptions = {},
+): ParseResult<T> {
+	// Remote input can be anything; report it instead of erroring in `pairs`
+	if (!typeIs(plain, "table")) return { ok: false, errors: [notATable(target, plain, options)] };
+
+	return withShapeCache(() => enterTable(plain, () => parseObject(target, plain, options)));
+}
+
+/** `ignoredKeys` not declared on the target are dropped whatever the unknown-key strategy */
+function parseObject<T extends object>(
+	target: T,
+	plain: Record<string, unknown>,
+	options: ValidationOptions,
+	ignoredKeys?: ReadonlySet<string>,
+): ParseResult<T> {
 	const errors: ValidationError[] = [];
 
-	const allowed = getAllowedKeys(target);
+	const plan = getPlan(target);
+	const allowed = plan.allowed;
 
 	const staged: Record<string, unknown> = {};
+	const deferred: DeferredProperty[] = [];
 
-	// Start with a copy of input (so extra keys survive)
+	const unknownKeys = options.unknownKeys ?? plan.unknownKeys ?? "reject";
+
+	// Start with a copy of input (so passed-through extra keys survive)
 	for (const [k, v] of pairs(plain as object)) {
+		checkpoint();
 		const key = k as string;
 		if (!allowed.has(key)) {
-			errors.push({ property: key, value: v, constraints: [`unknown property: "${key}"`] });
-			continue;
+			if (unknownKeys === "strip" || ignoredKeys?.has(key)) continue;
+			if (unknownKeys === "reject") {
+				if (reachedErrorLimit(errors, options)) continue;
+
+				const ctx: ValidatorContext = { object: target, property: key, value: v, options };
+				const message = resolveMessage(localized("UnknownProperty"), ctx);
+				errors.push(entryError(key, v, "UnknownProperty", message));
+				continue;
+			}
 		}
 
 		staged[key] = v as unknown;
@@ -105,67 +388,65 @@ export function parseInto<T extends object>(
 
 	if (errors.size() > 0) return { ok: false, errors };
 
-	const props = Reflect.getProperties(target);
-
-	for (const property of props) {
-		if (!Reflect.hasMetadata(target, META_MARKER_KEY, property)) continue;
+	for (const prop of plan.properties) {
+		if (reachedErrorLimit(errors, options)) break;
+		checkpoint();
 
-		let value = staged[property] as unknown;
-		const ctx: ValidatorContext = { object: target, property, value };
+		const property = prop.property;
+		const value = staged[property] as unknown;
+		if (options.skipMissingProperties && isNil(value)) continue;
+		if (!conditionsHold(prop, staged, value)) continue;
 
-		const coercer = Reflect.getMetadata<CoerceFn>(target, META_COERCE_KEY, property);
-		if (coercer !== undefined) {
-			const res = coercer(value, ctx);
-			if (!res.ok) {
-				errors.push({ property, value, constraints: [res.message] });
-				continue;
-			}
-			value = res.value;
-			ctx.value = value;
+		const ctx: ValidatorContext = { object: target, property, value, options };
+		if (defersCoercion(prop)) {
+			deferred.push({ prop, value, ctx, unprepared: true });
+			continue;
 		}
 
-		const optional = Reflect.getMetadata<boolean>(target, META_OPT_KEY, property) ?? false;
-		if (optional && isNil(value)) {
-			staged[property] = undefined;
+		// Nested values parse into fresh instances; nothing reaches `target` before commit
+		const prepared = prepareValue(prop, value, ctx);
+		if (prepared.error !== undefined) {
+			errors.push(prepared.error);
 			continue;
 		}
 
-		// Validate (on coerced value)
-		const validators = Reflect.getMetadata<ValidatorFn[]>(target, META_KEY, property) ?? [];
-		const constraints: string[] = [];
+		staged[property] = prepared.value;
+		if (prepared.settled) continue;
 
-		for (const fn of validators) {
-			const msg = fn(value, ctx);
-			if (msg !== undefined) constraints.push(msg);
-		}
-
-		if (constraints.size() > 0) {
-			errors.push({ property, value, constraints });
+		if (defersValidation(prop)) {
+			deferred.push({ prop, value: prepared.value, ctx, unprepared: false });
 			continue;
 		}
 
 		// Transform only after validation passes
-		const transforms =
-			Reflect.getMetadata<TransformFn[]>(target, META_TRANSFORM_KEY, property) ?? [];
-		for (const tf of transforms) {
-			const res = tf(value, ctx);
-			if (!res.ok) {
-				errors.push({ property, value, constraints: [res.message] });
-				break;
-			}
-			value = res.value;
-			ctx.value = value;
+		const res = runTransforms(prop, prepared.value, ctx);
+		if (res.error !== undefined) {
+			errors.push(res.error);
+			continue;
 		}
 
-		if (errors.size() > 0 && errors[errors.size() - 1].property === property) {
+		staged[property] = res.value;
+	}
+
+	// Asynchronous steps only wait once every property passed its synchronous rules
+	for (const pending of errors.size() === 0 ? deferred : []) {
+		if (reachedErrorLimit(errors, options)) break;
+		checkpoint();
+
+		const res = finishDeferred(pending);
+		if (res.error !== undefined) {
+			errors.push(res.error);
 			continue;
 		}
 
-		staged[property] = value;
+		staged[pending.prop.property] = res.value;
 	}
 
 	if (errors.size() > 0) return { ok: false, errors };
 
+	const objectErrors = runObjectChecks(target, staged, options);
+	if (objectErrors.size() > 0) return { ok: false, errors: objectErrors };
+
 	for (const [k, v] of pairs(staged as object)) {
 		(target as Record<string, unknown>)[k as string] = v as unknown;
 	}
@@ -173,27 +454,87 @@ export function parseInto<T extends object>(
 	return { ok: true, value: target };
 }
 
-export function assertValid(obj: object): void {
-	const errs = validate(obj);
-	if (errs.size() === 0) return;
+/**
+ * `validate` for very large objects and asynchronous rules (`ValidateByAsync`, ...).
+ * Yields through `options.scheduler` (by default until the next frame) whenever it has worked
+ * longer than `options.budget` seconds without yielding, and while waiting on asynchronous rules.
+ * Without asynchronous rules it resolves to the same errors `validate` returns.
+ *
+ * ## Example
+ * ```ts
+ * const errors = await validateAsync(blob, { budget: 0.001 });
+ * ```
+ */
+export function validateAsync(
+	obj: object,
+	options: AsyncValidationOptions = {},
+): Promise<ValidationError[]> {
+	return new Promise((resolve) => {
+		resolve(withBudget(options, () => validate(obj, options)));
+	});
+}
 
-	const lines = errs.map(
-		(e) =>
-			`${"\t".rep(5)}${e.property}: ${HttpService.JSONEncode(e.value)} -> ${e.constraints.join(", ")}`,
+/** `parseInto` with the time budget of `validateAsync`; resolves to the same result */
+export function parseIntoAsync<T extends object>(
+	target: T,
+	plain: Record<string, unknown>,
+	options: AsyncValidationOptions = {},
+): Promise<ParseResult<T>> {
+	return new Promise((resolve) => {
+		resolve(withBudget(options, () => parseInto(target, plain, options)));
+	});
+}
+
+/**
+ * Parses `value` into a new instance of `ctor`, or validates it in place when it already is one.
+ * Used by the parsing decorators (`@NestedType`, ...); the caller checks `value` is a table.
+ *
+ * Keys in `ignoredKeys` that `ctor` does not declare are dropped instead of being checked
+ * as unknown keys (the tag of a discriminated union).
+ */
+export function parseAs<T extends object>(
+	ctor: Ctor<T>,
+	value: object,
+	options: ValidationOptions = {},
+	ignoredKeys?: ReadonlySet<string>,
+): ParseResult<T> {
+	if (value instanceof ctor) {
+		const errors = validate(value, options);
+		return errors.size() === 0 ? { ok: true, value } : { ok: false, errors };
+	}
+
+	const target = new ctor();
+	const plain = value as Record<string, unknown>;
+	return withShapeCache(() =>
+		enterTable(plain, () => parseObject(target, plain, options, ignoredKeys)),
 	);
+}
+
+/** One line per error, children indented under their parent */
+function formatErrorLines(errors: ValidationError[], depth = 0, lines: string[] = []) {
+	for (const e of errors) {
+		lines.push(
+			`${"\t".rep(5 + depth)}${e.path}: ${HttpService.JSONEncode(e.value)} -> ${e.constraints.join(", ")}`,
+		);
+		formatErrorLines(e.children, depth + 1, lines);
+	}
+
+	return lines;
+}
+
+export function assertValid(obj: object, options: ValidationOptions = {}): void {
+	const errs = validate(obj, options);
+	if (errs.size() === 0) return;
+
+	const lines = formatErrorLines(errs);
 
 	error(`Validation failed:\n${lines.join("\n")}`);
 }
 
-export function assertParsed<T extends object>(
-	res: { ok: true; value: T } | { ok: false; errors: ValidationError[] },
-): T {
+export function assertParsed<T extends object>(res: ParseResult<T>): T {
 	if (res.ok) return res.value;
 
-	const lines = res.errors.map(
-		(e) =>
-			`${"\t".rep(5)}${e.property}: ${HttpService.JSONEncode(e.value)} -> ${e.constraints.join(", ")}`,
-	);
+	const lines = formatErrorLines(res.errors);
 
 	error(`Validation failed:\n${lines.join("\n")}`);
 }
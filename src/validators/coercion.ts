@@ -1,6 +1,15 @@
 import { Reflect } from "@flamework/core";
-import { CoerceFn } from "../types";
-import { isNil, setCoercer } from "./primitives";
+import {
+	AsyncCoerceFn,
+	AsyncRuleOptions,
+	CoerceFn,
+	CoercerKind,
+	RuleOptions,
+	ValidationMessage,
+} from "../types";
+import { matchesStepGroups } from "../helpers";
+import { isNil, markAsyncStep, pushCoercer } from "./primitives";
+import { awaitRule, canAwait, DEFAULT_RULE_TIMEOUT, timedOut } from "../scheduler";
 
 function deepFreeze<T extends object>(obj: T, seen?: Set<T>): T {
 	seen ??= new Set();
@@ -37,7 +46,7 @@ function deepFreeze<T extends object>(obj: T, seen?: Set<T>): T {
  * ```ts
  * type CoerceFn = (value: unknown, ctx: { object: object; property: string }) =>
  *   | { ok: true; value: unknown }
- *   | { ok: false; message: string };
+ *   | { ok: false; message: ValidationMessage };
  * ```
  *
  * ## `nil` handling
@@ -47,14 +56,51 @@ function deepFreeze<T extends object>(obj: T, seen?: Set<T>): T {
  * Use `Coerce.Default()` to *actively replace* `nil` values (but only for optional fields).
  */
 export namespace Coerce {
+	/** Registers `fn` like `Custom`, telling `pushCoercer` what it produces */
+	function register(kind: CoercerKind | undefined, fn: CoerceFn, options: RuleOptions = {}) {
+		const coercer: CoerceFn = (value, ctx) =>
+			matchesStepGroups(options, ctx.options.groups) ? fn(value, ctx) : { ok: true, value };
+
+		return (target: object, propertyKey: string) => pushCoercer(target, propertyKey, coercer, kind);
+	}
+
 	/**
 	 * Registers a custom coercer for a property.
 	 *
 	 * This is the primitive building block for all other `Coerce.*` helpers.
-	 * Provide a `CoerceFn` and it gets associated with the decorated property via `setCoercer`.
+	 * Provide a `CoerceFn` and it gets appended to the coercers of the decorated property via
+	 * `pushCoercer`. Coercers run in decorator application order, closest to the property first.
+	 *
+	 * With `options.groups` set, calls requesting other groups leave the value as-is.
+	 * Coercers without groups always run, since the validators rely on their output.
+	 */
+	export function Custom(fn: CoerceFn, options: RuleOptions = {}) {
+		return register(undefined, fn, options);
+	}
+
+	/**
+	 * Registers a coercer that has to wait, e.g. to resolve a player name into a user id.
+	 *
+	 * Runs in place of a synchronous coercer, under `validateAsync`, `parseIntoAsync`, `from` and
+	 * `safeFrom` only; the synchronous entrypoints leave the value as-is. Fails with a timeout
+	 * message when `fn` does not settle within `options.timeout` seconds (default 10); rejections
+	 * are rethrown. In those runs the property waits until every other property passed its
+	 * synchronous rules, then goes through all of its steps.
 	 */
-	export function Custom(fn: CoerceFn) {
-		return (target: object, propertyKey: string) => setCoercer(target, propertyKey, fn);
+	export function CustomAsync(fn: AsyncCoerceFn, options: AsyncRuleOptions = {}) {
+		const timeout = options.timeout ?? DEFAULT_RULE_TIMEOUT;
+
+		const decorate = Custom((value, ctx) => {
+			if (!canAwait()) return { ok: true, value };
+
+			const res = awaitRule(fn(value, ctx), timeout);
+			return res !== undefined ? res.value : { ok: false, message: timedOut(timeout) };
+		}, options);
+
+		return (target: object, propertyKey: string) => {
+			decorate(target, propertyKey);
+			markAsyncStep(target, propertyKey, "coerce");
+		};
 	}
 
 	/**
@@ -80,8 +126,8 @@ export namespace Coerce {
 	 * // { region: {} }     -> error
 	 * ```
 	 */
-	export function String(message = "could not coerce to string") {
-		return Custom((value) => {
+	export function String(message: ValidationMessage = "could not coerce to string") {
+		return register("string", (value) => {
 			if (isNil(value)) {
 				return { ok: true, value };
 			}
@@ -136,7 +182,7 @@ export namespace Coerce {
 	 * ```
 	 */
 	export function Default<T>(valueOrFactory: T | (() => T)) {
-		return Custom((value, ctx) => {
+		return register("default", (value, ctx) => {
 			// Only apply to optional fields
 			const optional =
 				Reflect.getMetadata<boolean>(ctx.object, "app:validators:optional", ctx.property) ?? false;
@@ -176,8 +222,8 @@ export namespace Coerce {
 	 * // p.tags[0] = "x" -> runtime error (frozen)
 	 * ```
 	 */
-	export function Readonly(message = "could not coerce to readonly") {
-		return Custom((value) => {
+	export function Readonly(message: ValidationMessage = "could not coerce to readonly") {
+		return register("table", (value) => {
 			// Only apply to tables
 			if (isNil(value)) return { ok: true, value };
 			if (!typeIs(value, "table")) return { ok: false, message };
@@ -207,8 +253,8 @@ export namespace Coerce {
 	 * // { hp: "nope" }  -> error
 	 * ```
 	 */
-	export function Number(message = "could not coerce to number") {
-		return Custom((value) => {
+	export function Number(message: ValidationMessage = "could not coerce to number") {
+		return register("number", (value) => {
 			if (isNil(value)) {
 				return { ok: true, value };
 			}
@@ -252,8 +298,8 @@ export namespace Coerce {
 	 * // { enabled: "yes" }      -> error (by design)
 	 * ```
 	 */
-	export function Boolean(message = "could not coerce to boolean") {
-		return Custom((value) => {
+	export function Boolean(message: ValidationMessage = "could not coerce to boolean") {
+		return register("boolean", (value) => {
 			if (isNil(value)) {
 				return { ok: true, value };
 			}
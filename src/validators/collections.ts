@@ -1,5 +1,11 @@
-import { isEmptyTable, isNonArrayTable } from "../helpers";
-import { isNil, ValidateBy } from "./primitives";
+import { Reflect } from "@flamework/core";
+import { entryError, matchesStepGroups } from "../helpers";
+import { SchemaLike, ValidationError, ValidationMessage, ValidatorOptions } from "../types";
+import { localized } from "../localization";
+import { isNil, setParser, ValidateBy, validatorOptions } from "./primitives";
+import { parseWithSchema } from "./schema";
+import { tableShape } from "../shape";
+import { checkpoint } from "../scheduler";
 
 function isDeepFrozen<T extends object>(obj: T, seen?: Set<T>): boolean {
 	seen ??= new Set();
@@ -31,6 +37,14 @@ function isDeepFrozen<T extends object>(obj: T, seen?: Set<T>): boolean {
 	return true;
 }
 
+/** Fails with `message` when any entry failed; `$<keyArg>` and `$reason` refer to the first one */
+function entriesFailure(message: ValidationMessage, keyArg: string, children: ValidationError[]) {
+	if (children.size() === 0) return undefined;
+
+	const first = children[0];
+	return { message, args: { [keyArg]: first.property, reason: first.constraints[0] }, children };
+}
+
 /**
  * Validates that a value is a *deeply frozen* Luau table (recursively read-only).
  *
@@ -55,13 +69,20 @@ function isDeepFrozen<T extends object>(obj: T, seen?: Set<T>): boolean {
  * - `table.freeze()` in Luau is shallow; `isDeepFrozen()` should check recursively.
  * - If you only want *shallow* frozen validation, use `table.isfrozen()` directly.
  */
-export function IsReadonly(message = "must be frozen") {
-	return ValidateBy("IsReadonly", (value) => {
-		if (isNil(value)) return undefined;
-		if (!typeIs(value, "table")) return message;
+export function IsReadonly(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsReadonly");
+
+	return ValidateBy(
+		"IsReadonly",
+		(value) => {
+			if (isNil(value)) return undefined;
+			if (!typeIs(value, "table")) return message;
 
-		return isDeepFrozen(value) ? undefined : message;
-	});
+			return isDeepFrozen(value) ? undefined : message;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -92,17 +113,20 @@ export function IsReadonly(message = "must be frozen") {
  * ## Tip
  * Combine with `@RecordEntries()` to validate each key/value entry.
  */
-export function IsRecord(message = "must be a record") {
-	return ValidateBy("IsRecord", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return message;
+export function IsRecord(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsRecord");
 
-		for (const [k] of pairs(value as object)) {
-			if (!typeIs(k, "string")) return message;
-		}
+	return ValidateBy(
+		"IsRecord",
+		(value) => {
+			if (!typeIs(value, "table")) return message;
 
-		return undefined;
-	});
+			const { kind } = tableShape(value);
+			return kind === "empty" || kind === "record" ? undefined : message;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -115,13 +139,14 @@ export function IsRecord(message = "must be a record") {
  * - values via `valueValidator(value, key)` (useful for per-field validation),
  * - or both.
  *
- * The first failing entry returns an error message with context.
+ * The first failing entry returns an error message with context; every failing
+ * entry is attached as a child error at path `<property>.<key>`.
  *
  * Behavior:
  * - If the input is not a record, it fails with `"must be a record"`.
  * - If a key is not a string, it fails with `"must be a record"`.
- * - If `keyValidator` fails, you get: `${message} (key "<k>": <reason>)`
- * - If `valueValidator` fails, you get: `${message} (at "<k>": <reason>)`
+ * - If `keyValidator` or `valueValidator` fails, you get `message`, where `$key` and `$reason`
+ *   refer to the first failing entry (default: `record entries invalid (at "<k>": <reason>)`).
  *
  * ## Example: validate keys + values
  * ```ts
@@ -150,28 +175,95 @@ export function IsRecord(message = "must be a record") {
 export function RecordEntries(
 	keyValidator?: (key: string, value: unknown) => string | undefined,
 	valueValidator?: (value: unknown, key: string) => string | undefined,
-	message = "record entries invalid",
+	options?: ValidationMessage | ValidatorOptions,
 ) {
-	return ValidateBy("RecordEntries", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return message;
+	const { message, rule } = validatorOptions(options, "RecordEntries");
+
+	return ValidateBy(
+		"RecordEntries",
+		(value) => {
+			if (!typeIs(value, "table")) return message;
+			const { kind } = tableShape(value);
+			if (kind === "array") return message;
+			if (kind === "map") return localized("IsRecord");
 
-		for (const [k, v] of pairs(value as object)) {
-			if (!typeIs(k, "string")) return "must be a record";
+			const children: ValidationError[] = [];
 
-			if (keyValidator) {
-				const msg = keyValidator(k as string, v);
-				if (msg !== undefined) return `${message} (key "${k}": ${msg})`;
+			for (const [k, v] of pairs(value as object)) {
+				checkpoint();
+				const msg = keyValidator?.(k as string, v) ?? valueValidator?.(v, k as string);
+				if (msg !== undefined) children.push(entryError(k, v, "RecordEntries", msg));
 			}
 
-			if (valueValidator) {
-				const msg = valueValidator(v, k as string);
-				if (msg !== undefined) return `${message} (at "${k}": ${msg})`;
+			return entriesFailure(message, "key", children);
+		},
+		{},
+		rule,
+	);
+}
+
+/**
+ * Record of DTOs (or of values matching any `SchemaLike`): string keys, every value validated
+ * and parsed against `schema`.
+ *
+ * `schema` is a class, a `Lazy()` schema or a predicate, as for `@ArrayOf()`. During
+ * `parseInto` / `from` plain values are replaced by parsed instances in a new table.
+ *
+ * Behavior:
+ * - `nil` passes (no error).
+ * - Fails with `"must be a record"` if the input is not a record or a key is not a string.
+ * - Every failing entry is attached as a child error at path `<property>.<key>`, with the
+ *   value's own errors below it; `$key` and `$reason` refer to the first one
+ *   (default: `record entries invalid (at "<k>": <reason>)`).
+ *
+ * ## Example
+ * ```ts
+ * class StatDto {
+ *   @IsNumber()
+ *   base!: number;
+ * }
+ *
+ * class CharacterDto {
+ *   @RecordOf(StatDto)
+ *   stats!: Record<string, StatDto>;
+ * }
+ *
+ * // { stats: { str: { base: 5 } } }   -> Works, `stats.str` is a StatDto
+ * // { stats: { str: { base: "5" } } } -> Fails with a child error at `stats.str.base`
+ * ```
+ */
+export function RecordOf(schema: SchemaLike, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "RecordOf");
+
+	return (target: object, propertyKey: string) => {
+		setParser(target, propertyKey, (value, ctx) => {
+			if (isNil(value) || !matchesStepGroups(rule, ctx.options.groups)) return { ok: true, value };
+
+			const notRecord = {
+				ok: false as const,
+				failure: { message: localized("IsRecord"), code: "RecordOf" },
+			};
+			if (!typeIs(value, "table")) return notRecord;
+			const { kind } = tableShape(value);
+			if (kind !== "empty" && kind !== "record") return notRecord;
+
+			const parsed: Record<string, unknown> = {};
+			const children: ValidationError[] = [];
+
+			for (const [k, v] of pairs(value as Record<string, unknown>)) {
+				checkpoint();
+				const res = parseWithSchema(schema, v, { ...ctx, value: v });
+				if (res.ok) parsed[k] = res.value;
+				else children.push(entryError(k, v, "RecordOf", res.message, res.errors));
 			}
-		}
 
-		return undefined;
-	});
+			const failure = entriesFailure(message, "key", children);
+			return failure === undefined
+				? { ok: true, value: parsed }
+				: { ok: false, failure: { ...failure, code: "RecordOf" } };
+		});
+		Reflect.defineMetadata(target, "app:validators:RecordOf", true, propertyKey);
+	};
 }
 
 /**
@@ -198,12 +290,19 @@ export function RecordEntries(
  * // Fails: { counts: [10, 20] } (array)
  * ```
  */
-export function IsMap(message = "must be a map") {
-	return ValidateBy("IsMap", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return message;
-		return undefined;
-	});
+export function IsMap(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsMap");
+
+	return ValidateBy(
+		"IsMap",
+		(value) => {
+			if (!typeIs(value, "table")) return message;
+			if (tableShape(value).kind === "array") return message;
+			return undefined;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -214,12 +313,13 @@ export function IsMap(message = "must be a map") {
  * - `valueValidator(value, key)` to validate values,
  * - or both.
  *
- * The first failing entry returns an error message with context.
+ * The first failing entry returns an error message with context; every failing
+ * entry is attached as a child error at path `<property>[<key>]`.
  *
  * Behavior:
  * - If input is not a non-array table, fails with `"must be a map"`.
- * - If `keyValidator` fails, you get: `${message} (bad key: <reason>)`
- * - If `valueValidator` fails, you get: `${message} (at <key>: <reason>)`
+ * - If `keyValidator` or `valueValidator` fails, you get `message`, where `$key` and `$reason`
+ *   refer to the first failing entry (default: `map entries invalid (at <key>: <reason>)`).
  *
  * ## Example: numeric keys, numeric values
  * ```ts
@@ -247,26 +347,102 @@ export function IsMap(message = "must be a map") {
 export function MapEntries(
 	keyValidator?: (key: unknown, value: unknown) => string | undefined,
 	valueValidator?: (value: unknown, key: unknown) => string | undefined,
-	message = "map entries invalid",
+	options?: ValidationMessage | ValidatorOptions,
 ) {
-	return ValidateBy("MapEntries", (value) => {
-		if (!typeIs(value, "table")) return "must be a map";
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return "must be a map";
-
-		for (const [k, v] of pairs(value as object)) {
-			if (keyValidator) {
-				const msg = keyValidator(k, v);
-				if (msg !== undefined) return `${message} (bad key: ${msg})`;
+	const { message, rule } = validatorOptions(options, "MapEntries");
+
+	return ValidateBy(
+		"MapEntries",
+		(value) => {
+			if (!typeIs(value, "table")) return localized("IsMap");
+			if (tableShape(value).kind === "array") return localized("IsMap");
+
+			const children: ValidationError[] = [];
+
+			for (const [k, v] of pairs(value as object)) {
+				checkpoint();
+				const msg = keyValidator?.(k, v) ?? valueValidator?.(v, k);
+				if (msg !== undefined) children.push(entryError(k, v, "MapEntries", msg));
 			}
 
-			if (valueValidator) {
-				const msg = valueValidator(v, k);
-				if (msg !== undefined) return `${message} (at ${tostring(k)}: ${msg})`;
+			return entriesFailure(message, "key", children);
+		},
+		{},
+		rule,
+	);
+}
+
+/**
+ * Map of DTOs (or of values matching any `SchemaLike`): keys checked against `keySchema`,
+ * values validated and parsed against `valueSchema`.
+ *
+ * Both schemas are a class, a `Lazy()` schema or a predicate, as for `@ArrayOf()`.
+ * Keys are only validated and kept as-is; during `parseInto` / `from` plain values are replaced
+ * by parsed instances in a new table.
+ *
+ * Behavior:
+ * - `nil` passes (no error).
+ * - Fails with `"must be a map"` if the input is not a non-array table.
+ * - Every failing entry is attached as a child error at path `<property>[<key>]` (a failing key
+ *   is reported before its value); `$key` and `$reason` refer to the first one
+ *   (default: `map entries invalid (at <key>: <reason>)`).
+ *
+ * ## Example
+ * ```ts
+ * const IsUserId = (k: unknown) => (typeIs(k, "number") ? undefined : "expected numeric user id");
+ *
+ * class PlotDto {
+ *   @IsString()
+ *   name!: string;
+ * }
+ *
+ * class WorldDto {
+ *   @MapOf(IsUserId, PlotDto)
+ *   plotsByUser!: Map<number, PlotDto>;
+ * }
+ * ```
+ */
+export function MapOf(
+	keySchema: SchemaLike,
+	valueSchema: SchemaLike,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, "MapOf");
+
+	return (target: object, propertyKey: string) => {
+		setParser(target, propertyKey, (value, ctx) => {
+			if (isNil(value) || !matchesStepGroups(rule, ctx.options.groups)) return { ok: true, value };
+
+			const notMap = {
+				ok: false as const,
+				failure: { message: localized("IsMap"), code: "MapOf" },
+			};
+			if (!typeIs(value, "table")) return notMap;
+			if (tableShape(value).kind === "array") return notMap;
+
+			const parsed = new Map<unknown, unknown>();
+			const children: ValidationError[] = [];
+
+			for (const [k, v] of pairs(value as object)) {
+				checkpoint();
+				const keyRes = parseWithSchema(keySchema, k, { ...ctx, value: k });
+				if (!keyRes.ok) {
+					children.push(entryError(k, k, "MapOf", keyRes.message, keyRes.errors));
+					continue;
+				}
+
+				const res = parseWithSchema(valueSchema, v, { ...ctx, value: v });
+				if (res.ok) parsed.set(k, res.value);
+				else children.push(entryError(k, v, "MapOf", res.message, res.errors));
 			}
-		}
 
-		return undefined;
-	});
+			const failure = entriesFailure(message, "key", children);
+			return failure === undefined
+				? { ok: true, value: parsed }
+				: { ok: false, failure: { ...failure, code: "MapOf" } };
+		});
+		Reflect.defineMetadata(target, "app:validators:MapOf", true, propertyKey);
+	};
 }
 
 /**
@@ -297,18 +473,26 @@ export function MapEntries(
  * // Error: { roles: ["admin", "mod"] } (array)
  * ```
  */
-export function IsSet(message = "must be a set") {
-	return ValidateBy("IsSet", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return message;
-
-		for (const [, v] of pairs(value as object)) {
-			// allow true or 1 (handy if people build sets from counts)
-			if (v !== true && v !== 1) return message;
-		}
+export function IsSet(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsSet");
 
-		return undefined;
-	});
+	return ValidateBy(
+		"IsSet",
+		(value) => {
+			if (!typeIs(value, "table")) return message;
+			if (tableShape(value).kind === "array") return message;
+
+			for (const [, v] of pairs(value as object)) {
+				checkpoint();
+				// allow true or 1 (handy if people build sets from counts)
+				if (v !== true && v !== 1) return message;
+			}
+
+			return undefined;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -319,8 +503,9 @@ export function IsSet(message = "must be a set") {
  *
  * Behavior:
  * - If input is not a set-like table, fails with `"must be a set"`.
- * - If any element fails `elementValidator`, returns:
- *   `${message} (at <element>: <reason>)`
+ * - If any element fails `elementValidator`, returns `message`, where `$element` and `$reason`
+ *   refer to the first failing element (default: `set elements invalid (at <element>: <reason>)`),
+ *   with every failing element attached as a child error.
  *
  * ## Example: require string elements matching a pattern
  * ```ts
@@ -343,19 +528,29 @@ export function IsSet(message = "must be a set") {
  */
 export function SetElements(
 	elementValidator: (element: unknown) => string | undefined,
-	message = "set elements invalid",
+	options?: ValidationMessage | ValidatorOptions,
 ) {
-	return ValidateBy("SetElements", (value) => {
-		if (!typeIs(value, "table")) return "must be a set";
-		if (!isEmptyTable(value) && !isNonArrayTable(value)) return "must be a set";
+	const { message, rule } = validatorOptions(options, "SetElements");
 
-		for (const [k, v] of pairs(value as object)) {
-			if (v !== true && v !== 1) return "must be a set";
+	return ValidateBy(
+		"SetElements",
+		(value) => {
+			if (!typeIs(value, "table")) return localized("IsSet");
+			if (tableShape(value).kind === "array") return localized("IsSet");
 
-			const msg = elementValidator(k);
-			if (msg !== undefined) return `${message} (at ${tostring(k)}: ${msg})`;
-		}
+			const children: ValidationError[] = [];
+
+			for (const [k, v] of pairs(value as object)) {
+				checkpoint();
+				if (v !== true && v !== 1) return localized("IsSet");
+
+				const msg = elementValidator(k);
+				if (msg !== undefined) children.push(entryError(k, k, "SetElements", msg));
+			}
 
-		return undefined;
-	});
+			return entriesFailure(message, "element", children);
+		},
+		{},
+		rule,
+	);
 }
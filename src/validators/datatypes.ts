@@ -0,0 +1,230 @@
+import { ValidationMessage, ValidatorOptions } from "../types";
+import { ValidateBy, validatorOptions } from "./primitives";
+
+/** Validates that a value is of the Roblox datatype `name` */
+function isDataType(
+	code: string,
+	name: keyof CheckableTypes,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, code);
+
+	return ValidateBy(code, (value) => (typeIs(value, name) ? undefined : message), {}, rule);
+}
+
+/** Whether `n` is neither NaN nor infinite */
+function isFiniteNumber(n: number) {
+	return n === n && n !== math.huge && n !== -math.huge;
+}
+
+/**
+ * Validates that a value is a `Vector3`.
+ *
+ * ## Example
+ * ```ts
+ * class TeleportRequest {
+ *   @IsVector3()
+ *   @IsFiniteVector()
+ *   target!: Vector3;
+ * }
+ * ```
+ */
+export function IsVector3(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsVector3", "Vector3", options);
+}
+
+/** Validates that a value is a `Vector2`. */
+export function IsVector2(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsVector2", "Vector2", options);
+}
+
+/** Validates that a value is a `CFrame`. */
+export function IsCFrame(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsCFrame", "CFrame", options);
+}
+
+/** Validates that a value is a `Color3`. */
+export function IsColor3(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsColor3", "Color3", options);
+}
+
+/** Validates that a value is a `UDim2`. */
+export function IsUDim2(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsUDim2", "UDim2", options);
+}
+
+/** Validates that a value is a `BrickColor`. */
+export function IsBrickColor(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsBrickColor", "BrickColor", options);
+}
+
+/** Validates that a value is a `NumberRange`. */
+export function IsNumberRange(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsNumberRange", "NumberRange", options);
+}
+
+/** Validates that a value is a `NumberSequence`. */
+export function IsNumberSequence(options?: ValidationMessage | ValidatorOptions) {
+	return isDataType("IsNumberSequence", "NumberSequence", options);
+}
+
+/**
+ * Validates that a `Vector3` or `Vector2` has no NaN or infinite components.
+ *
+ * Exploiters send `0/0` and `math.huge` components through remotes: NaN fails every comparison,
+ * so it slips past range checks written as `if (v.X > limit) reject()`.
+ *
+ * ## Example
+ * ```ts
+ * class AimPacket {
+ *   @IsFiniteVector()
+ *   @VectorMagnitudeMax(1)
+ *   direction!: Vector3;
+ * }
+ * ```
+ */
+export function IsFiniteVector(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsFiniteVector");
+
+	return ValidateBy(
+		"IsFiniteVector",
+		(value) => {
+			if (typeIs(value, "Vector3")) {
+				const finite =
+					isFiniteNumber(value.X) && isFiniteNumber(value.Y) && isFiniteNumber(value.Z);
+				return finite ? undefined : message;
+			}
+
+			if (typeIs(value, "Vector2")) {
+				return isFiniteNumber(value.X) && isFiniteNumber(value.Y) ? undefined : message;
+			}
+
+			return message;
+		},
+		{},
+		rule,
+	);
+}
+
+/**
+ * Validates that a `Vector3` or `Vector2` has a magnitude of **at most** `max`.
+ * Vectors with NaN components fail.
+ *
+ * ## Example
+ * ```ts
+ * class MoveInput {
+ *   @IsVector3()
+ *   @VectorMagnitudeMax(1)
+ *   direction!: Vector3;
+ * }
+ * ```
+ */
+export function VectorMagnitudeMax(max: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "VectorMagnitudeMax");
+
+	return ValidateBy(
+		"VectorMagnitudeMax",
+		(value) => {
+			if (!typeIs(value, "Vector3") && !typeIs(value, "Vector2")) return message;
+
+			return value.Magnitude <= max ? undefined : message;
+		},
+		{ max },
+		rule,
+	);
+}
+
+/**
+ * Validates that a vector lies inside the box spanned by `min` and `max` (inclusive, per
+ * component). The value must be of the same type as the bounds; NaN components fail.
+ *
+ * ## Example
+ * ```ts
+ * class PlaceBlock {
+ *   @VectorWithinRegion(new Vector3(-512, 0, -512), new Vector3(512, 256, 512))
+ *   position!: Vector3;
+ * }
+ * ```
+ */
+export function VectorWithinRegion(
+	min: Vector3,
+	max: Vector3,
+	options?: ValidationMessage | ValidatorOptions,
+): ReturnType<typeof ValidateBy>;
+export function VectorWithinRegion(
+	min: Vector2,
+	max: Vector2,
+	options?: ValidationMessage | ValidatorOptions,
+): ReturnType<typeof ValidateBy>;
+export function VectorWithinRegion(
+	min: Vector3 | Vector2,
+	max: Vector3 | Vector2,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, "VectorWithinRegion");
+
+	return ValidateBy(
+		"VectorWithinRegion",
+		(value) => {
+			if (typeIs(min, "Vector3")) {
+				const hi = max as Vector3;
+				if (!typeIs(value, "Vector3")) return message;
+
+				const inside =
+					value.X >= min.X &&
+					value.X <= hi.X &&
+					value.Y >= min.Y &&
+					value.Y <= hi.Y &&
+					value.Z >= min.Z &&
+					value.Z <= hi.Z;
+				return inside ? undefined : message;
+			}
+
+			const hi = max as Vector2;
+			if (!typeIs(value, "Vector2")) return message;
+
+			const inside = value.X >= min.X && value.X <= hi.X && value.Y >= min.Y && value.Y <= hi.Y;
+			return inside ? undefined : message;
+		},
+		{ min, max },
+		rule,
+	);
+}
+
+/**
+ * Validates that a `Color3` lies between `min` and `max` on every channel (inclusive),
+ * e.g. to keep player-picked colors away from pure black or glowing white.
+ *
+ * ## Example
+ * ```ts
+ * class NameTag {
+ *   @Color3Range(Color3.fromRGB(40, 40, 40), Color3.fromRGB(230, 230, 230))
+ *   color!: Color3;
+ * }
+ * ```
+ */
+export function Color3Range(
+	min: Color3,
+	max: Color3,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, "Color3Range");
+
+	return ValidateBy(
+		"Color3Range",
+		(value) => {
+			if (!typeIs(value, "Color3")) return message;
+
+			const inside =
+				value.R >= min.R &&
+				value.R <= max.R &&
+				value.G >= min.G &&
+				value.G <= max.G &&
+				value.B >= min.B &&
+				value.B <= max.B;
+			return inside ? undefined : message;
+		},
+		{ min, max },
+		rule,
+	);
+}
@@ -5,5 +5,9 @@ export * from "./primitives";
 export * from "./coercion";
 export * from "./literals";
 export * from "./union";
+export * from "./schema";
 export * from "./collections";
+export * from "./datatypes";
+export * from "./sanitize";
 export * from "./transform";
+export * from "./invariants";
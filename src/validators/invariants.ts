@@ -0,0 +1,178 @@
+import { Reflect } from "@flamework/core";
+import { entryError, matchesGroups } from "../helpers";
+import {
+	InvariantFn,
+	InvariantOptions,
+	ObjectCheck,
+	PropertyComparisonOptions,
+	ValidationMessage,
+	ValidatorOptions,
+} from "../types";
+import { META_INVARIANT_KEY } from "../constants";
+import { resolveMessage } from "../messages";
+import { invalidatePlans } from "../plan";
+import { isNil, ValidateBy, validatorOptions } from "./primitives";
+
+/**
+ * Class decorator registering a check over the whole object.
+ *
+ * Invariants run after every property passed its own validators (and after the
+ * cross-property validators), and see the final values of all properties:
+ * the object itself for `validate`, the staged values for `parseInto`, so nothing is
+ * committed when an invariant fails.
+ *
+ * The failure is reported as a `ValidationError` whose `property` is the class name, or
+ * `options.property` to blame a specific field. Its constraint code is `Invariant`
+ * (or `options.code`).
+ *
+ * ## Example
+ * ```ts
+ * const priceOrder = (o: Record<string, unknown>) =>
+ *   (o.minPrice as number) <= (o.maxPrice as number) ? undefined : "minPrice must be <= maxPrice";
+ *
+ * @Invariant(priceOrder, { property: "minPrice" })
+ * class Listing {
+ *   @IsNumber()
+ *   minPrice!: number;
+ *
+ *   @IsNumber()
+ *   maxPrice!: number;
+ * }
+ * ```
+ */
+export function Invariant(check: InvariantFn, options: InvariantOptions = {}) {
+	const code = options.code ?? "Invariant";
+
+	return (target: object) => {
+		const className = tostring(target);
+
+		const objectCheck: ObjectCheck = (values, callOptions) => {
+			if (!matchesGroups(options, callOptions.groups)) return undefined;
+
+			const res = check(values);
+			if (res === undefined) return undefined;
+
+			const property = options.property ?? className;
+			const value = options.property !== undefined ? values[options.property] : values;
+			const ctx = { object: values, property, value, options: callOptions };
+
+			return entryError(property, value, code, resolveMessage(res, ctx));
+		};
+
+		// Decorators apply bottom-up; prepend to keep source order
+		const current = Reflect.getMetadata<ObjectCheck[]>(target, META_INVARIANT_KEY) ?? [];
+		Reflect.defineMetadata(target, META_INVARIANT_KEY, [objectCheck, ...current]);
+		invalidatePlans();
+	};
+}
+
+/**
+ * Validates that the value equals (`===`) the value of another property.
+ *
+ * Runs in the cross-property pass, once every property is valid.
+ *
+ * ## Example
+ * ```ts
+ * class SignUp {
+ *   @IsString()
+ *   password!: string;
+ *
+ *   @EqualsProperty("password", "passwords do not match")
+ *   confirmPassword!: string;
+ * }
+ * ```
+ */
+export function EqualsProperty(other: string, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "EqualsProperty");
+
+	return ValidateBy(
+		"EqualsProperty",
+		(value, ctx) =>
+			value === (ctx.object as Record<string, unknown>)[other] ? undefined : message,
+		{ other },
+		{ ...rule, crossProperty: true },
+	);
+}
+
+function compareWithProperty(
+	code: string,
+	other: string,
+	options: ValidationMessage | PropertyComparisonOptions | undefined,
+	compare: (value: number, otherValue: number, inclusive: boolean) => boolean,
+) {
+	const { message, rule } = validatorOptions(options, code);
+	const inclusive =
+		typeIs(options, "table") && (options as PropertyComparisonOptions).inclusive === true;
+
+	return ValidateBy(
+		code,
+		(value, ctx) => {
+			const otherValue = (ctx.object as Record<string, unknown>)[other];
+			if (isNil(otherValue)) return undefined;
+			if (!typeIs(value, "number") || !typeIs(otherValue, "number")) return message;
+
+			return compare(value, otherValue, inclusive) ? undefined : message;
+		},
+		{ other, inclusive },
+		{ ...rule, argOrder: ["other"], crossProperty: true },
+	);
+}
+
+/**
+ * Validates that a number is less than the number in another property
+ * (or equal to it with `{ inclusive: true }`).
+ *
+ * Runs in the cross-property pass, once every property is valid. Passes when the other
+ * property is `nil`; fails when either value is not a number.
+ *
+ * ## Example
+ * ```ts
+ * class PriceRange {
+ *   @IsNumber()
+ *   @LessThanProperty("maxPrice", { inclusive: true })
+ *   minPrice!: number;
+ *
+ *   @IsNumber()
+ *   maxPrice!: number;
+ * }
+ * ```
+ */
+export function LessThanProperty(
+	other: string,
+	options?: ValidationMessage | PropertyComparisonOptions,
+) {
+	return compareWithProperty("LessThanProperty", other, options, (value, otherValue, inclusive) =>
+		inclusive ? value <= otherValue : value < otherValue,
+	);
+}
+
+/**
+ * Validates that a number is greater than the number in another property
+ * (or equal to it with `{ inclusive: true }`).
+ *
+ * Runs in the cross-property pass, once every property is valid. Passes when the other
+ * property is `nil`; fails when either value is not a number.
+ *
+ * ## Example
+ * ```ts
+ * class Session {
+ *   @IsNumber()
+ *   startedAt!: number;
+ *
+ *   @IsNumber()
+ *   @GreaterThanProperty("startedAt")
+ *   endedAt!: number;
+ * }
+ * ```
+ */
+export function GreaterThanProperty(
+	other: string,
+	options?: ValidationMessage | PropertyComparisonOptions,
+) {
+	return compareWithProperty(
+		"GreaterThanProperty",
+		other,
+		options,
+		(value, otherValue, inclusive) => (inclusive ? value >= otherValue : value > otherValue),
+	);
+}
@@ -1,10 +1,8 @@
-import { Placeholder } from "../types";
-import { ValidateBy } from "./primitives";
-
-function literalToString(v: unknown) {
-	if (typeIs(v, "string")) return `"${v}"`;
-	return tostring(v);
-}
+import { Reflect } from "@flamework/core";
+import { Placeholder, ValidationMessage, ValidatorOptions } from "../types";
+import { META_LITERAL_KEY } from "../constants";
+import { literalToString } from "../helpers";
+import { splitTrailingOptions, ValidateBy, validatorOptions } from "./primitives";
 
 function escapeLuaPattern(s: string) {
 	// Escape Lua pattern magic chars: ( ) . % + - * ? [ ] ^ $
@@ -18,12 +16,12 @@ function escapeLuaPattern(s: string) {
  *
  * - Works with `string | number | boolean` literals.
  * - Uses strict equality (`===`), so `"1"` will NOT match `1`, and `true` will NOT match `"true"`.
- * - Supports an optional custom error message as the final argument.
+ * - Supports optional `ValidatorOptions` (custom message, groups) as the final argument.
  *
  * ## Signature
  * ```ts
  * IsLiteral("a", "b", "c")
- * IsLiteral(1, 2, 3, "custom message")
+ * IsLiteral(1, 2, 3, { message: "custom message" })
  * IsLiteral(true, false)
  * ```
  *
@@ -48,7 +46,7 @@ function escapeLuaPattern(s: string) {
  * }
  *
  * class HttpStatus {
- *   @IsLiteral(200, 201, 204, "must be a success status")
+ *   @IsLiteral(200, 201, 204, { message: "must be a success status" })
  *   status!: number;
  * }
  * ```
@@ -61,19 +59,36 @@ function escapeLuaPattern(s: string) {
  *   bit!: 0 | 1;
  *   ```
  */
-export function IsLiteral<T extends readonly (string | number | boolean)[]>(...allowed: T) {
-	const defaultMessage =
-		allowed.size() === 1
-			? `must be ${literalToString(allowed[0])}`
-			: `must be one of ${allowed.map(literalToString).join(", ")}`;
-
-	return ValidateBy("IsLiteral", (value) => {
-		for (const a of allowed) {
-			if (value === a) return undefined;
-		}
+export function IsLiteral<T extends readonly (string | number | boolean)[]>(
+	...allowed: T
+): ReturnType<typeof ValidateBy>;
+export function IsLiteral<T extends readonly (string | number | boolean)[]>(
+	...args: [...T, ValidatorOptions]
+): ReturnType<typeof ValidateBy>;
+export function IsLiteral(...args: (string | number | boolean | ValidatorOptions)[]) {
+	const [allowed, options] = splitTrailingOptions<string | number | boolean>(args, (last) =>
+		typeIs(last, "table"),
+	);
+	const { message, rule } = validatorOptions(options, "IsLiteral");
+
+	const validator = ValidateBy(
+		"IsLiteral",
+		(value) => {
+			for (const a of allowed) {
+				if (value === a) return undefined;
+			}
+
+			return message;
+		},
+		{ allowed, list: allowed.map(literalToString).join(", ") },
+		rule,
+	);
 
-		return defaultMessage;
-	});
+	return (target: object, propertyKey: string) => {
+		validator(target, propertyKey);
+		// Read back by `@DiscriminatedUnionOf` to find each variant's tag
+		Reflect.defineMetadata(target, META_LITERAL_KEY, allowed, propertyKey);
+	};
 }
 
 /**
@@ -132,7 +147,12 @@ export function IsLiteral<T extends readonly (string | number | boolean)[]>(...a
  * - This validator does not coerce - it only validates string shape.
  * - Non-string inputs fail immediately with the provided message.
  */
-export function IsTemplateLiteral(template: string, message = `must match template ${template}`) {
+export function IsTemplateLiteral(
+	template: string,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, "IsTemplateLiteral");
+
 	let patterns = ["^"];
 	let i = 1;
 
@@ -182,14 +202,19 @@ export function IsTemplateLiteral(template: string, message = `must match templa
 
 	appendPattern("$");
 
-	return ValidateBy("IsTemplateLiteral", (value) => {
-		if (!typeIs(value, "string")) return message;
+	return ValidateBy(
+		"IsTemplateLiteral",
+		(value) => {
+			if (!typeIs(value, "string")) return message;
 
-		for (const pattern of patterns) {
-			const matches = value.match(pattern);
-			if (matches.size() > 0) return undefined;
-		}
+			for (const pattern of patterns) {
+				const matches = value.match(pattern);
+				if (matches.size() > 0) return undefined;
+			}
 
-		return message;
-	});
+			return message;
+		},
+		{ template },
+		rule,
+	);
 }
@@ -1,4 +1,5 @@
-import { ValidateBy } from "./primitives";
+import { ValidationMessage, ValidatorOptions } from "../types";
+import { ValidateBy, validatorOptions } from "./primitives";
 
 /**
  * Validates that a value is a `number`.
@@ -28,8 +29,15 @@ import { ValidateBy } from "./primitives";
  * // { hp: "10" } -> coerces to 10, then validates
  * ```
  */
-export function IsNumber(message = "must be a number") {
-	return ValidateBy("IsNumber", (value) => (typeIs(value, "number") ? undefined : message));
+export function IsNumber(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsNumber");
+
+	return ValidateBy(
+		"IsNumber",
+		(value) => (typeIs(value, "number") ? undefined : message),
+		{},
+		rule,
+	);
 }
 
 /**
@@ -61,13 +69,20 @@ export function IsNumber(message = "must be a number") {
  * }
  * ```
  */
-export function IsInteger(message = "must be a integer") {
-	return ValidateBy("IsInteger", (value) => {
-		if (!typeIs(value, "number")) return message;
+export function IsInteger(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsInteger");
+
+	return ValidateBy(
+		"IsInteger",
+		(value) => {
+			if (!typeIs(value, "number")) return message;
 
-		const n = value as number;
-		return math.floor(n) === n ? undefined : message;
-	});
+			const n = value as number;
+			return math.floor(n) === n ? undefined : message;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -93,15 +108,26 @@ export function IsInteger(message = "must be a integer") {
  * class Player {
  *   @Min(1, "must be at least 1 coin")
  *   coins!: number;
+ *
+ *   // placeholders are resolved when the check fails
+ *   @Min(0, "$property must be at least $constraint1, got $value")
+ *   gems!: number;
  * }
  * ```
  */
-export function Min(min: number, message = `must be >= ${min}`) {
-	return ValidateBy("Min", (value) => {
-		if (!typeIs(value, "number")) return message;
+export function Min(min: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "Min");
 
-		return (value as number) >= min ? undefined : message;
-	});
+	return ValidateBy(
+		"Min",
+		(value) => {
+			if (!typeIs(value, "number")) return message;
+
+			return (value as number) >= min ? undefined : message;
+		},
+		{ min },
+		rule,
+	);
 }
 
 /**
@@ -122,10 +148,17 @@ export function Min(min: number, message = `must be >= ${min}`) {
  * }
  * ```
  */
-export function Max(max: number, message = `must be <= ${max}`) {
-	return ValidateBy("Max", (value) => {
-		if (!typeIs(value, "number")) return message;
+export function Max(max: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "Max");
+
+	return ValidateBy(
+		"Max",
+		(value) => {
+			if (!typeIs(value, "number")) return message;
 
-		return (value as number) <= max ? undefined : message;
-	});
+			return (value as number) <= max ? undefined : message;
+		},
+		{ max },
+		rule,
+	);
 }
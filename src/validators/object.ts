@@ -1,7 +1,50 @@
-import { isArrayLikeTable } from "../helpers";
-import { TupleElementValidator } from "../types";
-import { validate } from "../validation";
-import { isNil, ValidateBy } from "./primitives";
+import { Reflect } from "@flamework/core";
+import { arrayLength, entryError, matchesStepGroups } from "../helpers";
+import {
+	Ctor,
+	SchemaLike,
+	TupleElementValidator,
+	UnknownKeysStrategy,
+	ValidationError,
+	ValidationMessage,
+	ValidatorOptions,
+} from "../types";
+import { META_UNKNOWN_KEYS_KEY } from "../constants";
+import { parseAs, validate } from "../validation";
+import { localized } from "../localization";
+import { nestingFailure } from "../nesting";
+import { invalidatePlans } from "../plan";
+import { checkpoint } from "../scheduler";
+import { isNil, setParser, splitTrailingOptions, ValidateBy, validatorOptions } from "./primitives";
+import { parseWithSchema } from "./schema";
+
+/**
+ * Class decorator setting how `parseInto` / `from` treat input keys the class does not declare,
+ * when the call does not pass `unknownKeys` itself. Also applies when the class is used as a
+ * union schema.
+ *
+ * - `reject` (default): fail with an `UnknownProperty` error per extra key
+ * - `strip`: drop extra keys
+ * - `passthrough`: keep extra keys on the instance
+ *
+ * ## Example
+ * ```ts
+ * // Old DataStore records still carry retired fields
+ * @UnknownKeys("strip")
+ * class SaveData extends WithFrom(class {}) {
+ *   @IsNumber()
+ *   coins!: number;
+ * }
+ *
+ * // { coins: 5, gems: 2 } -> Works, `gems` is dropped
+ * ```
+ */
+export function UnknownKeys(strategy: UnknownKeysStrategy) {
+	return (target: object) => {
+		Reflect.defineMetadata(target, META_UNKNOWN_KEYS_KEY, strategy);
+		invalidatePlans();
+	};
+}
 
 /**
  * Performs nested validation on a child object/table.
@@ -13,7 +56,11 @@ import { isNil, ValidateBy } from "./primitives";
  * Behavior:
  * - `nil` passes (no error). Use a required validator if you need it present.
  * - Non-table values fail.
+ * - Tables that contain themselves, or lie deeper than `maxDepth`, fail (`CircularReference`,
+ *   `MaxDepth`).
  * - Tables pass if `validate(value).size() === 0`.
+ * - Otherwise the child errors are attached as `children` of the property error,
+ *   with paths rooted at this property (e.g. `engine.hp`).
  *
  * ## Example
  * ```ts
@@ -29,20 +76,92 @@ import { isNil, ValidateBy } from "./primitives";
  * }
  *
  * // { engine: { hp: 200 } } -> Works (assuming Engine validators pass)
- * // { engine: { hp: 0 } }   -> Fails (nested validation failed)
+ * // { engine: { hp: 0 } }   -> Fails: "nested validation failed"
+ * //                             with a child error at path `engine.hp`
  * ```
+ */
+export function Nested(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "Nested");
+
+	return ValidateBy(
+		"Nested",
+		(value, ctx) => {
+			if (isNil(value)) return undefined;
+			if (!typeIs(value, "table")) return message;
+
+			const nesting = nestingFailure(value, ctx.options);
+			if (nesting !== undefined) return nesting;
+
+			const errs = validate(value, ctx.options);
+			return errs.size() === 0 ? undefined : { message, children: errs };
+		},
+		{},
+		rule,
+	);
+}
+
+/**
+ * Nested DTO that is *parsed*, not just validated.
  *
- * ## Note
- * This validator returns a single message (`message`) rather than bubbling up all
- * nested errors.
+ * During `parseInto` / `from`, the child plain table is parsed into a new instance of the class
+ * returned by `getType` - with its own coercion, validation, transforms and unknown-key checks -
+ * and that instance replaces the plain value. The parent is only committed when the whole
+ * tree succeeds. `validate` parses plain children the same way and validates existing instances
+ * in place.
+ *
+ * `getType` is a thunk so classes can refer to themselves or to classes declared later.
+ *
+ * Behavior:
+ * - `nil` passes (no error). Use a required validator if you need it present.
+ * - Non-table values fail with `must be an object`.
+ * - A table that contains itself fails with `CircularReference`, one nested more than
+ *   `maxDepth` levels below the root with `MaxDepth`.
+ * - Child failures are attached as `children` of the property error (e.g. `engine.hp`).
+ *
+ * ## Example
+ * ```ts
+ * class Engine {
+ *   @Coerce.Number()
+ *   @Min(1)
+ *   hp!: number;
+ *
+ *   power() {
+ *     return this.hp * 2;
+ *   }
+ * }
+ *
+ * class Car extends WithFrom(class {}) {
+ *   @NestedType(() => Engine)
+ *   engine!: Engine;
+ * }
+ *
+ * const car = await Car.from({ engine: { hp: "200" } });
+ * car.engine.power(); // 400 - a real Engine instance
+ * ```
  */
-export function Nested(message = "nested validation failed") {
-	return ValidateBy("Nested", (value) => {
-		if (isNil(value)) return undefined;
-		if (!typeIs(value, "table")) return message;
+export function NestedType<T extends object>(
+	getType: () => Ctor<T>,
+	options?: ValidationMessage | ValidatorOptions,
+) {
+	const { message, rule } = validatorOptions(options, "NestedType");
 
-		return validate(value).size() === 0 ? undefined : message;
-	});
+	return (target: object, propertyKey: string) => {
+		setParser(target, propertyKey, (value, ctx) => {
+			if (isNil(value) || !matchesStepGroups(rule, ctx.options.groups)) return { ok: true, value };
+			if (!typeIs(value, "table")) {
+				return { ok: false, failure: { message: localized("IsObject"), code: "NestedType" } };
+			}
+
+			const nesting = nestingFailure(value, ctx.options);
+			if (nesting !== undefined) return { ok: false, failure: nesting };
+
+			const res = parseAs(getType(), value, ctx.options);
+			if (res.ok) return res;
+
+			return { ok: false, failure: { message, code: "NestedType", children: res.errors } };
+		});
+		Reflect.defineMetadata(target, "app:validators:NestedType", true, propertyKey);
+	};
 }
 
 /**
@@ -67,11 +186,17 @@ export function Nested(message = "nested validation failed") {
  * // Fails { items: { a: 1 } } (record/table with string keys)
  * ```
  */
-export function IsArray(message = "must be an array") {
-	return ValidateBy("IsArray", (value) => {
-		if (!typeIs(value, "table")) return message;
-		return isArrayLikeTable(value as object) ? undefined : message;
-	});
+export function IsArray(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsArray");
+
+	return ValidateBy(
+		"IsArray",
+		(value) => {
+			return arrayLength(value) !== undefined ? undefined : message;
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -91,13 +216,20 @@ export function IsArray(message = "must be an array") {
  * }
  * ```
  */
-export function ArrayMinSize(min: number, message = `array must have size >= ${min}`) {
-	return ValidateBy("ArrayMinSize", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isArrayLikeTable(value as object)) return message;
+export function ArrayMinSize(min: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "ArrayMinSize");
 
-		return (value as unknown[]).size() >= min ? undefined : message;
-	});
+	return ValidateBy(
+		"ArrayMinSize",
+		(value) => {
+			const length = arrayLength(value);
+			if (length === undefined) return message;
+
+			return length >= min ? undefined : message;
+		},
+		{ min },
+		rule,
+	);
 }
 
 /**
@@ -117,13 +249,20 @@ export function ArrayMinSize(min: number, message = `array must have size >= ${m
  * }
  * ```
  */
-export function ArrayMaxSize(max: number, message = `array must have size <= ${max}`) {
-	return ValidateBy("ArrayMaxSize", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isArrayLikeTable(value as object)) return message;
+export function ArrayMaxSize(max: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "ArrayMaxSize");
+
+	return ValidateBy(
+		"ArrayMaxSize",
+		(value) => {
+			const length = arrayLength(value);
+			if (length === undefined) return message;
 
-		return (value as unknown[]).size() <= max ? undefined : message;
-	});
+			return length <= max ? undefined : message;
+		},
+		{ max },
+		rule,
+	);
 }
 
 /**
@@ -139,8 +278,9 @@ export function ArrayMaxSize(max: number, message = `array must have size <= ${m
  * Behavior:
  * - Fails if value is not a table or not array-like.
  * - Iterates the array from index 1..n.
- * - Returns the first failing element as:
- *   `${message} (at <idx>: <reason>)`
+ * - Reports the first failing element with `message`; `$index` and `$reason` refer to it
+ *   (default: `array elements invalid (at <idx>: <reason>)`).
+ * - Every failing element is attached as a child error at path `<property>[<idx>]`.
  *
  * ## Example: number array
  * ```ts
@@ -165,26 +305,105 @@ export function ArrayMaxSize(max: number, message = `array must have size <= ${m
  */
 export function ArrayElements(
 	elementValidator: (value: unknown, index: number) => string | undefined,
-	message = "array elements invalid",
+	options?: ValidationMessage | ValidatorOptions,
 ) {
-	return ValidateBy("ArrayElements", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isArrayLikeTable(value as object)) return message;
-
-		const arr = value as unknown[];
-		for (let i = 0; i < arr.size(); i += 1) {
-			const idx = i + 1; // Luau arrays are 1-based
-			const msg = elementValidator(arr[i], idx);
-			if (msg !== undefined) return `${message} (at ${idx}: ${msg})`;
-		}
-
-		return undefined;
-	});
+	const { message, rule } = validatorOptions(options, "ArrayElements");
+
+	return ValidateBy(
+		"ArrayElements",
+		(value) => {
+			const length = arrayLength(value);
+			if (length === undefined) return message;
+
+			const arr = value as unknown[];
+			const children: ValidationError[] = [];
+			for (let i = 0; i < length; i += 1) {
+				checkpoint();
+				const idx = i + 1; // Luau arrays are 1-based
+				const msg = elementValidator(arr[i], idx);
+				if (msg !== undefined) children.push(entryError(idx, arr[i], "ArrayElements", msg));
+			}
+
+			if (children.size() === 0) return undefined;
+
+			const first = children[0];
+			return { message, args: { index: first.property, reason: first.constraints[0] }, children };
+		},
+		{},
+		rule,
+	);
+}
+
+/**
+ * Array of DTOs (or of values matching any `SchemaLike`), validated and parsed element by element.
+ *
+ * `schema` is a class, a `Lazy()` schema (`Lazy(() => WeaponDto)`, for classes declared later)
+ * or a predicate `(value, ctx) => string | undefined`. Every element is checked - not just up to the first
+ * failure - and during `parseInto` / `from` plain elements are replaced by parsed instances
+ * in a new array. `validate` does the same on the object it checks.
+ *
+ * Behavior:
+ * - `nil` passes (no error). Use a required validator if you need it present.
+ * - Non-array values fail with `must be an array`.
+ * - Every failing element is attached as a child error at path `<property>[<idx>]`, with the
+ *   element's own errors below it (e.g. `weapons[2].ammo`); `$index` and `$reason` refer to
+ *   the first one (default: `array elements invalid (at <idx>: <reason>)`).
+ *
+ * ## Example
+ * ```ts
+ * class WeaponDto {
+ *   @IsString()
+ *   id!: string;
+ *
+ *   @Coerce.Number()
+ *   @Min(0)
+ *   ammo!: number;
+ * }
+ *
+ * class LoadoutDto extends WithFrom(class {}) {
+ *   @ArrayOf(WeaponDto)
+ *   weapons!: WeaponDto[];
+ * }
+ *
+ * const loadout = await LoadoutDto.from({ weapons: [{ id: "ak", ammo: "30" }] });
+ * loadout.weapons[0] instanceof WeaponDto; // true
+ * ```
+ */
+export function ArrayOf(schema: SchemaLike, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "ArrayOf");
+
+	return (target: object, propertyKey: string) => {
+		setParser(target, propertyKey, (value, ctx) => {
+			if (isNil(value) || !matchesStepGroups(rule, ctx.options.groups)) return { ok: true, value };
+			const length = arrayLength(value);
+			if (length === undefined) {
+				return { ok: false, failure: { message: localized("IsArray"), code: "ArrayOf" } };
+			}
+
+			const arr = value as defined[];
+			const parsed: defined[] = [];
+			const children: ValidationError[] = [];
+			for (let i = 0; i < length; i += 1) {
+				checkpoint();
+				const idx = i + 1; // Luau arrays are 1-based
+				const res = parseWithSchema(schema, arr[i], { ...ctx, value: arr[i] });
+				if (res.ok) parsed.push(res.value as defined);
+				else children.push(entryError(idx, arr[i], "ArrayOf", res.message, res.errors));
+			}
+
+			if (children.size() === 0) return { ok: true, value: parsed };
+
+			const first = children[0];
+			const args = { index: first.property, reason: first.constraints[0] };
+			return { ok: false, failure: { message, code: "ArrayOf", args, children } };
+		});
+		Reflect.defineMetadata(target, "app:validators:ArrayOf", true, propertyKey);
+	};
 }
 
 /**
  * Validates that a value is a fixed-length tuple (array-like table) and validates each index
- * with its corresponding validator.
+ * with its corresponding validator. A trailing `ValidatorOptions` may follow the validators.
  *
  * You provide one validator per tuple slot. The input must:
  * - be a table
@@ -192,7 +411,7 @@ export function ArrayElements(
  * - have the exact length `validators.size()`
  *
  * It then runs each `validators[i](valueAtIndex, index)` and collects *all* failures,
- * returning them in a single aggregated message.
+ * returning them in a single aggregated message and as child errors (one per index).
  *
  * ## Example: [string, number]
  * ```ts
@@ -218,33 +437,43 @@ export function ArrayElements(
  * pos!: unknown[];
  * ```
  */
-export function IsTuple(...validators: TupleElementValidator[]) {
-	const defaultMsg = `must be a tuple of length ${validators.size()}`;
+export function IsTuple(
+	...args: TupleElementValidator[] | [...TupleElementValidator[], ValidatorOptions]
+) {
+	const [validators, options] = splitTrailingOptions<TupleElementValidator>(args, (last) =>
+		typeIs(last, "table"),
+	);
+	const { message, rule } = validatorOptions(options, "IsTuple");
 
-	return ValidateBy("IsTuple", (value) => {
-		if (!typeIs(value, "table")) return defaultMsg;
-		if (!isArrayLikeTable(value as object)) return defaultMsg;
+	return ValidateBy(
+		"IsTuple",
+		(value) => {
+			if (arrayLength(value) !== validators.size()) return message;
 
-		const members: string[] = [];
+			const members: string[] = [];
+			const children: ValidationError[] = [];
 
-		const arr = value as unknown[];
-		if (arr.size() !== validators.size()) return defaultMsg;
+			const arr = value as unknown[];
 
-		for (let i = 0; i < validators.size(); i += 1) {
-			const idx = i + 1;
-			const v = arr[i];
-			const err = validators[i](v, idx);
-			if (err !== undefined) {
-				members.push(`at ${idx}: ${err}`);
+			for (let i = 0; i < validators.size(); i += 1) {
+				const idx = i + 1;
+				const v = arr[i];
+				const err = validators[i](v, idx);
+				if (err !== undefined) {
+					members.push(`at ${idx}: ${err}`);
+					children.push(entryError(idx, v, "IsTuple", err));
+				}
 			}
-		}
 
-		if (members.size() === 0) {
-			return undefined;
-		}
+			if (members.size() === 0) {
+				return undefined;
+			}
 
-		return defaultMsg + `(${members.join(", ")})`;
-	});
+			return { message, args: { reasons: members.join(", ") }, children };
+		},
+		{ length: validators.size() },
+		rule,
+	);
 }
 
 /**
@@ -267,11 +496,15 @@ export function IsTuple(...validators: TupleElementValidator[]) {
  * // Fails: { r: 1 }     (not array-like)
  * ```
  */
-export function TupleLength(len: number, message = `tuple must have length ${len}`) {
-	return ValidateBy("TupleLength", (value) => {
-		if (!typeIs(value, "table")) return message;
-		if (!isArrayLikeTable(value as object)) return message;
+export function TupleLength(len: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "TupleLength");
 
-		return (value as unknown[]).size() === len ? undefined : message;
-	});
+	return ValidateBy(
+		"TupleLength",
+		(value) => {
+			return arrayLength(value) === len ? undefined : message;
+		},
+		{ length: len },
+		rule,
+	);
 }
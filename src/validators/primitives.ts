@@ -1,19 +1,80 @@
 import { Reflect } from "@flamework/core";
-import { CoerceFn, TransformFn, ValidatorFn } from "../types";
 import {
+	AsyncValidatorFn,
+	CoerceFn,
+	CoercerKind,
+	ConstraintArgs,
+	ParserFn,
+	RuleOptions,
+	SanitizeFn,
+	TransformFn,
+	ValidateByAsyncOptions,
+	ValidateByOptions,
+	ValidateIfCondition,
+	ValidationMessage,
+	ValidatorFn,
+	ValidatorOptions,
+} from "../types";
+import { localized } from "../localization";
+import { matchesGroups } from "../helpers";
+import { invalidatePlans } from "../plan";
+import { awaitRule, canAwait, DEFAULT_RULE_TIMEOUT, timedOut } from "../scheduler";
+import {
+	META_ASYNC_COERCE_KEY,
+	META_ASYNC_KEY,
+	META_ASYNC_TRANSFORM_KEY,
 	META_COERCE_KEY,
+	META_COERCE_KINDS_KEY,
+	META_CONDITION_KEY,
+	META_CROSS_KEY,
 	META_KEY,
 	META_MARKER_KEY,
 	META_OPT_KEY,
+	META_PARSER_KEY,
+	META_SANITIZE_KEY,
 	META_TRANSFORM_KEY,
 } from "../constants";
 
+/** Flags the property for the pipeline; compiled plans no longer match the metadata */
+function markProperty(target: object, propertyKey: string) {
+	Reflect.defineMetadata(target, META_MARKER_KEY, true, propertyKey);
+	invalidatePlans();
+}
+
 export function pushValidator(target: object, propertyKey: string, fn: ValidatorFn) {
 	const current = Reflect.getMetadata<ValidatorFn[]>(target, META_KEY, propertyKey) ?? [];
 	current.push(fn);
 
 	Reflect.defineMetadata(target, META_KEY, current, propertyKey);
-	Reflect.defineMetadata(target, META_MARKER_KEY, true, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+/** Registers a validator that is awaited once every property passed its synchronous validators */
+export function pushAsyncValidator(target: object, propertyKey: string, fn: ValidatorFn) {
+	const current = Reflect.getMetadata<ValidatorFn[]>(target, META_ASYNC_KEY, propertyKey) ?? [];
+	current.push(fn);
+
+	Reflect.defineMetadata(target, META_ASYNC_KEY, current, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+/**
+ * Flags the property as having an asynchronous coercer or transform. The property then waits
+ * until every property passed its synchronous rules: all of its steps for a coercer, its
+ * transforms for a transform.
+ */
+export function markAsyncStep(target: object, propertyKey: string, step: "coerce" | "transform") {
+	const key = step === "coerce" ? META_ASYNC_COERCE_KEY : META_ASYNC_TRANSFORM_KEY;
+	Reflect.defineMetadata(target, key, true, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+export function pushCrossValidator(target: object, propertyKey: string, fn: ValidatorFn) {
+	const current = Reflect.getMetadata<ValidatorFn[]>(target, META_CROSS_KEY, propertyKey) ?? [];
+	current.push(fn);
+
+	Reflect.defineMetadata(target, META_CROSS_KEY, current, propertyKey);
+	markProperty(target, propertyKey);
 }
 
 export function pushTransform(target: object, propertyKey: string, fn: TransformFn) {
@@ -21,17 +82,94 @@ export function pushTransform(target: object, propertyKey: string, fn: Transform
 	current.push(fn);
 
 	Reflect.defineMetadata(target, META_TRANSFORM_KEY, current, propertyKey);
-	Reflect.defineMetadata(target, META_MARKER_KEY, true, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+export function pushSanitizer(target: object, propertyKey: string, fn: SanitizeFn) {
+	const current = Reflect.getMetadata<SanitizeFn[]>(target, META_SANITIZE_KEY, propertyKey) ?? [];
+	current.push(fn);
+
+	Reflect.defineMetadata(target, META_SANITIZE_KEY, current, propertyKey);
+	markProperty(target, propertyKey);
 }
 
 export function setOptional(target: object, propertyKey: string) {
 	Reflect.defineMetadata(target, META_OPT_KEY, true, propertyKey);
-	Reflect.defineMetadata(target, META_MARKER_KEY, true, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+export function pushCondition(target: object, propertyKey: string, fn: ValidateIfCondition) {
+	const current =
+		Reflect.getMetadata<ValidateIfCondition[]>(target, META_CONDITION_KEY, propertyKey) ?? [];
+	current.push(fn);
+
+	Reflect.defineMetadata(target, META_CONDITION_KEY, current, propertyKey);
+	markProperty(target, propertyKey);
+}
+
+/** Kinds recorded per property; `custom` marks a coercer without one, which may produce anything */
+type ChainKind = CoercerKind | "custom";
+
+/** What the coercers of each kind accept besides `nil` */
+const COERCER_INPUTS: Record<Exclude<CoercerKind, "default">, ChainKind[]> = {
+	string: ["string", "number", "boolean"],
+	number: ["number", "string"],
+	boolean: ["boolean", "string"],
+	table: ["table"],
+};
+
+/**
+ * Whether a `kind` coercer can never pass what the `previous` one produced (`@Coerce.Number()`
+ * after `@Coerce.Boolean()`). Defaults pass anything along and accept anything.
+ */
+function coercersConflict(previous: ChainKind, kind: CoercerKind) {
+	if (previous === "custom" || previous === "default" || kind === "default") return false;
+
+	return !COERCER_INPUTS[kind].includes(previous);
+}
+
+/**
+ * Appends `fn` to the coercers of the property. Coercers run in the order their decorators are
+ * applied (the one closest to the property first), each receiving the output of the previous one.
+ *
+ * `kind` tells what the coercer produces; a coercer that can never pass the output of the one
+ * right before it, or a second default (which would never apply), errors here. A subclass that
+ * declares coercers on an inherited property starts a chain of its own.
+ */
+export function pushCoercer(target: object, propertyKey: string, fn: CoerceFn, kind?: CoercerKind) {
+	const kinds =
+		Reflect.getOwnMetadata<ChainKind[]>(target, META_COERCE_KINDS_KEY, propertyKey) ?? [];
+	const previous = kinds[kinds.size() - 1] as ChainKind | undefined;
+	if (kind === "default" && kinds.includes("default")) {
+		error(`Coerce: "${propertyKey}" already has a default coercer; only one can apply`, 3);
+	}
+	if (kind !== undefined && previous !== undefined && coercersConflict(previous, kind)) {
+		error(`Coerce: ${previous} and ${kind} coercers on "${propertyKey}" are incompatible`, 3);
+	}
+
+	const current = Reflect.getOwnMetadata<CoerceFn[]>(target, META_COERCE_KEY, propertyKey) ?? [];
+	Reflect.defineMetadata(target, META_COERCE_KINDS_KEY, [...kinds, kind ?? "custom"], propertyKey);
+	Reflect.defineMetadata(target, META_COERCE_KEY, [...current, fn], propertyKey);
+	markProperty(target, propertyKey);
 }
 
+/** @deprecated Use `pushCoercer`, which this now calls: the coercer is appended to the chain */
 export function setCoercer(target: object, propertyKey: string, fn: CoerceFn) {
-	Reflect.defineMetadata(target, META_COERCE_KEY, fn, propertyKey);
-	Reflect.defineMetadata(target, META_MARKER_KEY, true, propertyKey);
+	pushCoercer(target, propertyKey, fn);
+}
+
+/**
+ * Sets the parser of the property. A property has a single parser, so a second parsing decorator
+ * (`@NestedType`, `@ArrayOf`, `@Union`, ...) on it errors here instead of replacing the first.
+ * Subclasses may still re-declare the parser of an inherited property.
+ */
+export function setParser(target: object, propertyKey: string, fn: ParserFn) {
+	if (Reflect.hasOwnMetadata(target, META_PARSER_KEY, propertyKey)) {
+		error(`Parse: "${propertyKey}" already has a parsing decorator; only one can apply`, 3);
+	}
+
+	Reflect.defineMetadata(target, META_PARSER_KEY, fn, propertyKey);
+	markProperty(target, propertyKey);
 }
 
 export function isNil(v: unknown) {
@@ -44,13 +182,181 @@ export function IsOptional() {
 	};
 }
 
-export function ValidateBy(name: string, fn: ValidatorFn) {
+/**
+ * Only processes the property when `condition` returns true; otherwise its value is left as-is
+ * (no coercion, validation or transforms). Stacked conditions must all hold.
+ *
+ * During `parseInto` the condition sees the staged values of the input, so it can depend on
+ * other fields before anything is committed.
+ *
+ * ## Example
+ * ```ts
+ * class Order {
+ *   @IsLiteral("paid", "refunded")
+ *   status!: string;
+ *
+ *   @ValidateIf((o) => o.status === "refunded")
+ *   @IsString()
+ *   @MinLength(10)
+ *   refundReason?: string;
+ * }
+ * ```
+ */
+export function ValidateIf(condition: ValidateIfCondition) {
+	return (target: object, propertyKey: string) => {
+		pushCondition(target, propertyKey, condition);
+	};
+}
+
+/**
+ * Registers `fn` as a validator named `name`.
+ *
+ * `name` doubles as the constraint code reported in `ValidationError.details`, and `args`
+ * are the arguments reported alongside it (e.g. `ValidateBy("Min", fn, { min })`).
+ * They are also what message templates read (`$min`, `$constraint1`).
+ *
+ * `fn` returns the message (template or factory) to fail with. It may instead return a
+ * `ValidationFailure` whose `args` are merged over the static ones, e.g. to report which
+ * entry of a collection failed.
+ *
+ * With `options.groups` set the validator only runs for calls requesting one of those groups
+ * (unless `options.always` is set). With `options.crossProperty` it runs in a second pass,
+ * once every property is valid, and can read the other properties from `ctx.object`.
+ */
+export function ValidateBy(
+	name: string,
+	fn: ValidatorFn,
+	args: ConstraintArgs = {},
+	options: ValidateByOptions = {},
+) {
+	const push = options.crossProperty ? pushCrossValidator : pushValidator;
+
+	return (target: object, propertyKey: string) => {
+		push(target, propertyKey, namedValidator(name, fn, args, options));
+		Reflect.defineMetadata(target, `app:validators:${name}`, true, propertyKey);
+	};
+}
+
+/**
+ * `ValidateBy` for checks that have to wait, e.g. on a DataStore or web request.
+ *
+ * `fn` resolves to what a `ValidateBy` validator returns. It only runs once every property of
+ * the object passed its synchronous validators, and only under `validateAsync`, `parseIntoAsync`,
+ * `from` and `safeFrom`: the synchronous entrypoints skip it. If it does not settle within
+ * `options.timeout` seconds (default 10) the property fails with code `Timeout`; rejections
+ * are rethrown.
+ *
+ * ## Example
+ * ```ts
+ * class SignupDto {
+ *   @IsString()
+ *   @ValidateByAsync("UsernameFree", (name) =>
+ *     Promise.try(() => store.GetAsync(`name_${name}`)).then((owner) =>
+ *       owner === undefined ? undefined : "is already taken",
+ *     ),
+ *   )
+ *   username!: string;
+ * }
+ * ```
+ */
+export function ValidateByAsync(
+	name: string,
+	fn: AsyncValidatorFn,
+	args: ConstraintArgs = {},
+	options: ValidateByAsyncOptions = {},
+) {
+	const timeout = options.timeout ?? DEFAULT_RULE_TIMEOUT;
+	const push = options.crossProperty ? pushCrossValidator : pushAsyncValidator;
+
+	const awaited: ValidatorFn = (value, ctx) => {
+		if (!canAwait()) return undefined;
+
+		const res = awaitRule(fn(value, ctx), timeout);
+		if (res !== undefined) return res.value;
+
+		return { message: timedOut(timeout), code: "Timeout", args: { timeout } };
+	};
+
 	return (target: object, propertyKey: string) => {
-		pushValidator(target, propertyKey, (value, ctx) => fn(value, ctx));
+		push(target, propertyKey, namedValidator(name, awaited, args, options));
 		Reflect.defineMetadata(target, `app:validators:${name}`, true, propertyKey);
 	};
 }
 
-export function IsBoolean(message = "must be a boolean") {
-	return ValidateBy("IsBoolean", (value) => (typeIs(value, "boolean") ? undefined : message));
+/** Wraps `fn` to skip other groups and to report `name` and `args` with its failures */
+function namedValidator(
+	name: string,
+	fn: ValidatorFn,
+	args: ConstraintArgs,
+	options: ValidateByOptions,
+): ValidatorFn {
+	const argOrder = options.argOrder;
+
+	return (value, ctx) => {
+		if (!matchesGroups(options, ctx.options.groups)) return undefined;
+
+		const res = fn(value, ctx);
+		if (res === undefined) return undefined;
+		if (typeIs(res, "string") || typeIs(res, "function")) {
+			return { message: res, code: name, args, argOrder };
+		}
+
+		return {
+			...res,
+			code: res.code ?? name,
+			args: res.args !== undefined ? { ...args, ...res.args } : args,
+			argOrder: res.argOrder ?? argOrder,
+		};
+	};
+}
+
+/**
+ * Reads the trailing `message` argument of a built-in validator, which is either a message or
+ * a `ValidatorOptions` object, into the message to fail with (defaulting to the locale entry
+ * for `code`) and the rule options to pass on to `ValidateBy`.
+ *
+ * ```ts
+ * export function IsEven(options?: ValidationMessage | ValidatorOptions) {
+ *   const { message, rule } = validatorOptions(options, "IsEven");
+ *   return ValidateBy("IsEven", (v) => (typeIs(v, "number") && v % 2 === 0 ? undefined : message), {}, rule);
+ * }
+ * ```
+ */
+export function validatorOptions(
+	options: ValidationMessage | ValidatorOptions | undefined,
+	code: string,
+): { message: ValidationMessage; rule: RuleOptions } {
+	if (options === undefined || typeIs(options, "string") || typeIs(options, "function")) {
+		return { message: options ?? localized(code), rule: {} };
+	}
+
+	const { groups, always } = options;
+	return { message: options.message ?? localized(code), rule: { groups, always } };
+}
+
+/**
+ * Splits a trailing `ValidatorOptions` off the arguments of a variadic validator
+ * (`IsLiteral`, `IsTuple`, `Union`, ...). `isOptions` tells it apart from a regular argument.
+ */
+export function splitTrailingOptions<T extends defined>(
+	args: readonly (T | ValidatorOptions)[],
+	isOptions: (last: unknown) => boolean,
+): [T[], ValidatorOptions | undefined] {
+	const items = [...args];
+	const last = items[items.size() - 1];
+	if (last === undefined || !isOptions(last)) return [items as T[], undefined];
+
+	items.pop();
+	return [items as T[], last as ValidatorOptions];
+}
+
+export function IsBoolean(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsBoolean");
+
+	return ValidateBy(
+		"IsBoolean",
+		(value) => (typeIs(value, "boolean") ? undefined : message),
+		{},
+		rule,
+	);
 }
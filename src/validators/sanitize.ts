@@ -0,0 +1,79 @@
+import { RuleOptions, SanitizeFn } from "../types";
+import { matchesStepGroups } from "../helpers";
+import { pushSanitizer } from "./primitives";
+
+/**
+ * Sanitizers normalize a value after coercion and **before** validation, so the validators
+ * judge the normalized value (unlike `Transform.*`, which runs once validation passed).
+ *
+ * ## Pipeline
+ * coerce -> sanitize -> parse -> validate -> transform
+ *
+ * Sanitizers run in decorator application order (closest to the property first) and never fail:
+ * the built-ins leave non-string values unchanged for `@IsString()` and friends to report.
+ *
+ * ## Example
+ * ```ts
+ * class ChatMessage {
+ *   @IsString()
+ *   @MinLength(1) // "   " fails instead of passing and becoming ""
+ *   @Sanitize.Trim()
+ *   @Sanitize.StripRichText()
+ *   text!: string;
+ * }
+ * ```
+ */
+export namespace Sanitize {
+	/**
+	 * Registers a sanitizer. With `options.groups` set it is skipped for calls requesting other
+	 * groups; sanitizers without groups always run.
+	 */
+	export function Custom(fn: SanitizeFn, options: RuleOptions = {}) {
+		const sanitizer: SanitizeFn = (value, ctx) =>
+			matchesStepGroups(options, ctx.options.groups) ? fn(value, ctx) : value;
+
+		return (target: object, propertyKey: string) => pushSanitizer(target, propertyKey, sanitizer);
+	}
+
+	/** Removes leading and trailing whitespace */
+	export function Trim() {
+		return Custom((value) =>
+			typeIs(value, "string") ? value.gsub("^%s+", "")[0].gsub("%s+$", "")[0] : value,
+		);
+	}
+
+	/** Converts the string to lowercase */
+	export function Lowercase() {
+		return Custom((value) => (typeIs(value, "string") ? value.lower() : value));
+	}
+
+	/** Trims, and replaces every run of whitespace (tabs, newlines, ...) with a single space */
+	export function CollapseWhitespace() {
+		return Custom((value) => {
+			if (!typeIs(value, "string")) return value;
+
+			return value.gsub("%s+", " ")[0].gsub("^ ", "")[0].gsub(" $", "")[0];
+		});
+	}
+
+	/**
+	 * Removes rich text tags (`<b>`, `<font color="#FF0000">`, `</i>`, `<br />`, ...) so players
+	 * cannot style text other players see. Escapes such as `&lt;` are left as they are.
+	 *
+	 * Strips until no tag is left, so nested tags (`<<b>b>`) cannot rebuild one.
+	 */
+	export function StripRichText() {
+		return Custom((value) => {
+			if (!typeIs(value, "string")) return value;
+
+			let text = value;
+			let previous: string;
+			do {
+				previous = text;
+				text = text.gsub("<[^<>]*>", "")[0];
+			} while (text !== previous);
+
+			return text;
+		});
+	}
+}
@@ -0,0 +1,88 @@
+import { Ctor, LazySchema, SchemaLike, ValidationError, ValidatorContext } from "../types";
+import { parseAs } from "../validation";
+import { resolveMessage } from "../messages";
+import { localized } from "../localization";
+import { nestingFailure } from "../nesting";
+
+export type SchemaParseResult =
+	{ ok: true; value: unknown } | { ok: false; message: string; errors: ValidationError[] };
+
+/**
+ * Defers resolving a schema until a value is checked against it, so a class can use itself
+ * or a class declared further down as a schema.
+ *
+ * Accepted everywhere a `SchemaLike` is (`@Union`, `@DiscriminatedUnion`, `@ArrayOf`, ...).
+ * Cyclic input tables and input nested deeper than `maxDepth` fail instead of recursing forever.
+ *
+ * ## Example
+ * ```ts
+ * class TreeNode {
+ *   @IsString()
+ *   label!: string;
+ *
+ *   @IsOptional()
+ *   @ArrayOf(Lazy(() => TreeNode))
+ *   children?: TreeNode[];
+ * }
+ *
+ * class Owner {
+ *   @Union(Lazy(() => Pet), (v) => (v === "none" ? undefined : 'must be "none"'))
+ *   pet!: Pet | "none";
+ * }
+ *
+ * class Pet {
+ *   @Union(Lazy(() => Owner))
+ *   owner!: Owner;
+ * }
+ * ```
+ */
+export function Lazy(resolve: () => SchemaLike): LazySchema {
+	return { lazySchema: resolve };
+}
+
+export function isLazySchema(schema: unknown): schema is LazySchema {
+	return typeIs(schema, "table") && (schema as Partial<LazySchema>).lazySchema !== undefined;
+}
+
+/** Unwraps `Lazy` schemas (also nested ones) into the schema they stand for */
+export function resolveSchema(schema: SchemaLike): Exclude<SchemaLike, LazySchema> {
+	let resolved = schema;
+	while (isLazySchema(resolved)) resolved = resolved.lazySchema();
+
+	return resolved;
+}
+
+/**
+ * Parses one value against a schema of a collection decorator.
+ *
+ * - Predicates pass the value through unchanged or fail with their message. Every function
+ *   is a predicate: classes referred to before they are declared go through `Lazy()`.
+ * - Classes parse plain tables into a new instance, and validate existing instances in place.
+ *   `ignoredKeys` the class does not declare are dropped, see `parseAs`.
+ */
+export function parseWithSchema(
+	schema: SchemaLike,
+	value: unknown,
+	ctx: ValidatorContext,
+	ignoredKeys?: ReadonlySet<string>,
+): SchemaParseResult {
+	const resolved = resolveSchema(schema);
+	if (typeIs(resolved, "function")) {
+		const msg = resolved(value, ctx);
+		return msg === undefined ? { ok: true, value } : { ok: false, message: msg, errors: [] };
+	}
+
+	if (!typeIs(value, "table")) {
+		return { ok: false, message: resolveMessage(localized("IsObject"), ctx), errors: [] };
+	}
+
+	const nesting = nestingFailure(value, ctx.options);
+	if (nesting !== undefined) {
+		return { ok: false, message: resolveMessage(nesting.message, ctx, nesting.args), errors: [] };
+	}
+
+	const res = parseAs(resolved as Ctor<object>, value, ctx.options, ignoredKeys);
+	if (res.ok) return res;
+
+	return { ok: false, message: resolveMessage(localized("NestedType"), ctx), errors: res.errors };
+}
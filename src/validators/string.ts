@@ -1,4 +1,5 @@
-import { ValidateBy } from "./primitives";
+import { ValidationMessage, ValidatorOptions } from "../types";
+import { ValidateBy, validatorOptions } from "./primitives";
 
 /**
  * Validates that a value is a Luau `string`.
@@ -28,8 +29,15 @@ import { ValidateBy } from "./primitives";
  * // { name: 123 } -> "123"
  * ```
  */
-export function IsString(message = "must be a string") {
-	return ValidateBy("IsString", (value) => (typeIs(value, "string") ? undefined : message));
+export function IsString(options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "IsString");
+
+	return ValidateBy(
+		"IsString",
+		(value) => (typeIs(value, "string") ? undefined : message),
+		{},
+		rule,
+	);
 }
 
 /**
@@ -53,15 +61,26 @@ export function IsString(message = "must be a string") {
  * class User {
  *   @MinLength(8, "password must be at least 8 characters")
  *   password!: string;
+ *
+ *   // or build it when the check fails
+ *   @MinLength(3, (ctx, args) => `${ctx.property} needs ${args.minLength} characters`)
+ *   username!: string;
  * }
  * ```
  */
-export function MinLength(minLength: number, message = `must have length >= ${minLength}`) {
-	return ValidateBy("MinLength", (value) => {
-		if (!typeIs(value, "string")) return message;
+export function MinLength(minLength: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "MinLength");
 
-		return value.size() >= minLength ? undefined : message;
-	});
+	return ValidateBy(
+		"MinLength",
+		(value) => {
+			if (!typeIs(value, "string")) return message;
+
+			return value.size() >= minLength ? undefined : message;
+		},
+		{ minLength },
+		rule,
+	);
 }
 
 /**
@@ -80,10 +99,17 @@ export function MinLength(minLength: number, message = `must have length >= ${mi
  * }
  * ```
  */
-export function MaxLength(maxLength: number, message = `must have length <= ${maxLength}`) {
-	return ValidateBy("MaxLength", (value) => {
-		if (!typeIs(value, "string")) return message;
+export function MaxLength(maxLength: number, options?: ValidationMessage | ValidatorOptions) {
+	const { message, rule } = validatorOptions(options, "MaxLength");
+
+	return ValidateBy(
+		"MaxLength",
+		(value) => {
+			if (!typeIs(value, "string")) return message;
 
-		return value.size() <= maxLength ? undefined : message;
-	});
+			return value.size() <= maxLength ? undefined : message;
+		},
+		{ maxLength },
+		rule,
+	);
 }
@@ -1,10 +1,46 @@
-import { TransformFn } from "../types";
-import { isArrayLikeTable } from "../helpers";
-import { isNil, pushTransform } from "./primitives";
+import {
+	AsyncRuleOptions,
+	AsyncTransformFn,
+	RuleOptions,
+	TransformFn,
+	ValidationMessage,
+} from "../types";
+import { isArrayLikeTable, matchesStepGroups } from "../helpers";
+import { isNil, markAsyncStep, pushTransform } from "./primitives";
+import { awaitRule, canAwait, DEFAULT_RULE_TIMEOUT, timedOut } from "../scheduler";
 
 export namespace Transform {
-	export function Custom(fn: TransformFn) {
-		return (target: object, propertyKey: string) => pushTransform(target, propertyKey, fn);
+	/**
+	 * Registers a transform. With `options.groups` set it is skipped for calls requesting other
+	 * groups; transforms without groups always run.
+	 */
+	export function Custom(fn: TransformFn, options: RuleOptions = {}) {
+		const transform: TransformFn = (value, ctx) =>
+			matchesStepGroups(options, ctx.options.groups) ? fn(value, ctx) : { ok: true, value };
+
+		return (target: object, propertyKey: string) => pushTransform(target, propertyKey, transform);
+	}
+
+	/**
+	 * Registers a transform that has to wait. Only runs under `validateAsync`, `parseIntoAsync`,
+	 * `from` and `safeFrom` (the synchronous entrypoints leave the value as-is); fails when `fn`
+	 * does not settle within `options.timeout` seconds (default 10). The transforms of the property
+	 * wait until every property passed its synchronous rules.
+	 */
+	export function CustomAsync(fn: AsyncTransformFn, options: AsyncRuleOptions = {}) {
+		const timeout = options.timeout ?? DEFAULT_RULE_TIMEOUT;
+
+		const decorate = Custom((value, ctx) => {
+			if (!canAwait()) return { ok: true, value };
+
+			const res = awaitRule(fn(value, ctx), timeout);
+			return res !== undefined ? res.value : { ok: false, message: timedOut(timeout) };
+		}, options);
+
+		return (target: object, propertyKey: string) => {
+			decorate(target, propertyKey);
+			markAsyncStep(target, propertyKey, "transform");
+		};
 	}
 
 	/** Runs fn(value) and replaces the value. */
@@ -13,7 +49,7 @@ export namespace Transform {
 	}
 
 	/** String transforms */
-	export function Trim(message = "must be a string") {
+	export function Trim(message: ValidationMessage = "must be a string") {
 		return Custom((value) => {
 			if (isNil(value)) return { ok: true, value };
 			if (!typeIs(value, "string")) return { ok: false, message };
@@ -21,7 +57,7 @@ export namespace Transform {
 		});
 	}
 
-	export function Lowercase(message = "must be a string") {
+	export function Lowercase(message: ValidationMessage = "must be a string") {
 		return Custom((value) => {
 			if (isNil(value)) return { ok: true, value };
 			if (!typeIs(value, "string")) return { ok: false, message };
@@ -29,7 +65,7 @@ export namespace Transform {
 		});
 	}
 
-	export function Uppercase(message = "must be a string") {
+	export function Uppercase(message: ValidationMessage = "must be a string") {
 		return Custom((value) => {
 			if (isNil(value)) return { ok: true, value };
 			if (!typeIs(value, "string")) return { ok: false, message };
@@ -40,7 +76,7 @@ export namespace Transform {
 	/** Table/array transforms */
 	export function ArrayMap(
 		mapper: (value: unknown, index: number) => unknown,
-		message = "must be an array",
+		message: ValidationMessage = "must be an array",
 	) {
 		return Custom((value) => {
 			if (isNil(value)) return { ok: true, value };
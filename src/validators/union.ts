@@ -1,58 +1,173 @@
 import { Reflect } from "@flamework/core";
-import { formatErrors } from "../helpers";
-import { SchemaLike, ValidatorContext } from "../types";
-import { validate } from "../validation";
-import { isNil, ValidateBy } from "./primitives";
+import { formatErrors, literalToString, matchesGroups } from "../helpers";
+import {
+	Ctor,
+	DiscriminatedMap,
+	LazySchema,
+	ParserFn,
+	RuleOptions,
+	SchemaLike,
+	UnionOptions,
+	UnionVariantFailure,
+	ValidationError,
+	ValidationMessage,
+	ValidatorContext,
+	ValidatorOptions,
+} from "../types";
+import { localized } from "../localization";
+import { META_LITERAL_KEY } from "../constants";
+import { isNil, setParser, splitTrailingOptions, ValidateBy, validatorOptions } from "./primitives";
+import { isLazySchema, parseWithSchema, resolveSchema, SchemaParseResult } from "./schema";
 
+type ParserResult = ReturnType<ParserFn>;
+
+type Literal = string | number | boolean;
+
+/** Variant each union-parsed table matched, see `getMatchedVariant` */
+const matchedVariants = new WeakMap<object, Exclude<SchemaLike, LazySchema>>();
+
+/**
+ * Checks `value` against one variant, like the schemas of collection decorators: class variants
+ * parse it into a new instance (coercers and transforms applied); instances of the class are
+ * validated in place. Failures of class variants are summed up by their errors.
+ */
 function validateAgainstSchema(
 	schema: SchemaLike,
 	value: unknown,
 	ctx: ValidatorContext,
 	opts?: { allowKeys?: string[] },
+): SchemaParseResult {
+	const ignoredKeys = opts?.allowKeys !== undefined ? new Set(opts.allowKeys) : undefined;
+	const res = parseWithSchema(schema, value, ctx, ignoredKeys);
+	if (res.ok || res.errors.size() === 0) return res;
+
+	return { ok: false, message: formatErrors(res.errors), errors: res.errors };
+}
+
+/** Records which variant produced `value` (tables only) and passes the value on */
+function matched(schema: SchemaLike, value: unknown): ParserResult {
+	if (typeIs(value, "table")) matchedVariants.set(value, resolveSchema(schema));
+	return { ok: true, value };
+}
+
+/**
+ * The variant (class or predicate) a value parsed by `@Union`, `@ExclusiveUnion` or
+ * `@DiscriminatedUnion` matched; `Lazy` variants are reported resolved. `undefined` for
+ * values no union produced, and for primitives.
+ *
+ * ## Example
+ * ```ts
+ * const msg = await NetMessage.from(payload);
+ * if (getMatchedVariant(msg.body) === ChatDto) {
+ *   // ...
+ * }
+ * ```
+ */
+export function getMatchedVariant(value: unknown): Exclude<SchemaLike, LazySchema> | undefined {
+	return typeIs(value, "table") ? matchedVariants.get(value) : undefined;
+}
+
+/**
+ * Registers a union as the parse step of the property, so the matched variant replaces the
+ * raw value. Follows the group semantics of validators.
+ */
+function unionParser(
+	name: string,
+	rule: RuleOptions,
+	parse: (value: unknown, ctx: ValidatorContext) => ParserResult,
 ) {
-	if (typeIs(schema, "function")) {
-		const msg = schema(value, ctx);
-		return msg === undefined ? { ok: true as const } : { ok: false as const, message: msg };
-	}
+	return (target: object, propertyKey: string) => {
+		setParser(target, propertyKey, (value, ctx) => {
+			if (isNil(value) || !matchesGroups(rule, ctx.options.groups)) return { ok: true, value };
+			return parse(value, ctx);
+		});
+		Reflect.defineMetadata(target, `app:validators:${name}`, true, propertyKey);
+	};
+}
+
+/** A trailing plain table after the schemas (neither a class nor `Lazy`) is `ValidatorOptions` */
+function isSchemaOptions(last: unknown) {
+	return (
+		typeIs(last, "table") && (last as { new?: unknown }).new === undefined && !isLazySchema(last)
+	);
+}
+
+type SchemaArgs = SchemaLike[] | [...SchemaLike[], ValidatorOptions];
 
-	if (!typeIs(value, "table")) {
-		return { ok: false as const, message: "must be an object" };
+/** Concatenates the nested errors of every failed schema */
+function collectSchemaErrors(results: SchemaParseResult[]) {
+	const errors: ValidationError[] = [];
+	for (const res of results) {
+		if (res.ok) continue;
+		for (const e of res.errors) errors.push(e);
 	}
 
-	const Ctor = schema as unknown as { new (): object };
-	const instance = new Ctor();
+	return errors;
+}
+
+/** Failed top-level properties of a variant whose errors carry `code` */
+function countFailures(failure: UnionVariantFailure, code: string) {
+	let count = 0;
+	for (const e of failure.errors) {
+		if (e.details.some((d) => d.code === code)) count += 1;
+	}
 
-	const allow = new Set<string>(opts?.allowKeys ?? []);
+	return count;
+}
 
-	const allowed = new Set<string>();
-	for (const p of Reflect.getProperties(instance)) allowed.add(p);
+/**
+ * Whether `schema` is a class with `@IsLiteral` (discriminator-like) fields and `value` holds
+ * one of the allowed literals in each of them
+ */
+function tagMatches(schema: SchemaLike, value: unknown) {
+	const resolved = resolveSchema(schema);
+	if (typeIs(resolved, "function") || !typeIs(value, "table")) return false;
 
-	const unknown: string[] = [];
-	for (const [k, v] of pairs(value as object)) {
-		const key = k as string;
-		if (!allowed.has(key) && !allow.has(key)) {
-			unknown.push(key);
-			continue;
-		}
+	let tagged = false;
+	for (const property of Reflect.getProperties(resolved)) {
+		const allowed = Reflect.getMetadata<Literal[]>(resolved, META_LITERAL_KEY, property);
+		if (allowed === undefined) continue;
 
-		// Only assign keys that the instance actually has
-		// (don’t assign discriminator onto the DTO instance)
-		if (allowed.has(key)) {
-			(instance as Record<never, never>)[key as never] = v as never;
-		}
+		const field = (value as Record<string, unknown>)[property];
+		if (!allowed.includes(field as Literal)) return false;
+		tagged = true;
 	}
 
-	if (unknown.size() > 0) {
-		return {
-			ok: false as const,
-			message: `unknown properties: ${unknown.sort().join(", ")}`,
-		};
-	}
+	return tagged;
+}
 
-	const errs = validate(instance);
-	if (errs.size() === 0) return { ok: true as const };
+/**
+ * How far a failed variant is from matching `value`, most significant first: whether it has
+ * literal (discriminator-like) fields that all matched, literal mismatches, unknown keys, then
+ * failing properties. A failed predicate counts as one failing property.
+ */
+function variantDistance(failure: UnionVariantFailure, schema: SchemaLike, value: unknown) {
+	return [
+		tagMatches(schema, value) ? 0 : 1,
+		countFailures(failure, "IsLiteral"),
+		countFailures(failure, "UnknownProperty"),
+		math.max(failure.errors.size(), 1),
+	];
+}
 
-	return { ok: false as const, message: formatErrors(errs) };
+/** The failed variant closest to matching; the first declared one wins ties */
+function closestVariant(variants: UnionVariantFailure[], schemas: SchemaLike[], value: unknown) {
+	let best = variants[0];
+	let bestDistance = variantDistance(best, schemas[best.variant], value);
+
+	for (const candidate of variants) {
+		const distance = variantDistance(candidate, schemas[candidate.variant], value);
+		for (let i = 0; i < distance.size(); i += 1) {
+			if (distance[i] === bestDistance[i]) continue;
+			if (distance[i] < bestDistance[i]) {
+				best = candidate;
+				bestDistance = distance;
+			}
+			break;
+		}
+	}
+
+	return best;
 }
 
 /**
@@ -72,9 +187,20 @@ function validateAgainstSchema(
  * ## Behavior
  * - `nil` passes (no error). Use required validators if needed.
  * - Runs `validateAgainstSchema(s, value, ctx)` for each schema `s`.
- * - If any schema returns `{ ok: true }`, the union passes.
+ * - If any schema returns `{ ok: true }`, the union passes and the property is replaced by
+ *   the matched value: for a class variant, the instance parsed from the table (its coercers
+ *   and transforms applied). `getMatchedVariant(value)` tells which variant it was.
  * - If none match, returns:
  *   `must match one of the union variants (reasonA / reasonB / ...)`
+ *   with the nested errors of every variant attached as children.
+ * - With `{ bestMatch: true }`, only the closest variant is reported instead:
+ *   `must match one of the union variants (closest: reason)` with its errors as children.
+ *   Class variants whose `@IsLiteral` fields (discriminator-like tags) all matched come first,
+ *   then the closest variant has the fewest failing `@IsLiteral` fields, then the fewest
+ *   unknown keys, then the fewest failing properties; its 0-based position is the `closest`
+ *   argument.
+ * - Either way the `variants` argument of the constraint lists every variant's
+ *   `{ variant, message, errors }` (see `UnionVariantFailure`).
  *
  * ## Examples
  * ### Two DTO variants
@@ -88,6 +214,17 @@ function validateAgainstSchema(
  * }
  * ```
  *
+ * ### Readable errors for many variants
+ * ```ts
+ * class NetMessage {
+ *   @Union(ChatDto, MoveDto, EmoteDto, TradeDto, KickDto, PingDto, { bestMatch: true })
+ *   body!: unknown;
+ * }
+ *
+ * // { type: "move", speed: "fast" } -> must match one of the union variants
+ * //   (closest: speed: must be a number), with `body.speed` as the only child error
+ * ```
+ *
  * ### Mix predicate + DTO
  * ```ts
  * const IsHello = (v: unknown) =>
@@ -102,19 +239,35 @@ function validateAgainstSchema(
  * ## Notes
  * - Union is *non-exclusive*: it’s fine if multiple variants would match; it passes on the first match.
  */
-export function Union(...schemas: SchemaLike[]) {
-	return ValidateBy("Union", (value, ctx) => {
-		if (isNil(value)) return undefined;
+export function Union(...args: SchemaArgs | [...SchemaLike[], UnionOptions]) {
+	const [schemas, options] = splitTrailingOptions<SchemaLike>(args, isSchemaOptions);
+	const { message, rule } = validatorOptions(options, "Union");
+	const bestMatch = (options as UnionOptions | undefined)?.bestMatch === true;
 
+	return unionParser("Union", rule, (value, ctx) => {
 		const reasons: string[] = [];
+		const failures: SchemaParseResult[] = [];
+		const variants: UnionVariantFailure[] = [];
 
-		for (const s of schemas) {
+		for (let i = 0; i < schemas.size(); i += 1) {
+			const s = schemas[i];
 			const res = validateAgainstSchema(s, value, ctx);
-			if (res.ok) return undefined;
-			reasons.push(res.message ?? "did not match");
+			if (res.ok) return matched(s, res.value);
+			reasons.push(res.message);
+			failures.push(res);
+			variants.push({ variant: i, message: res.message, errors: res.errors });
+		}
+
+		if (bestMatch) {
+			const closest = closestVariant(variants, schemas, value);
+			const args = { reasons: closest.message, closest: closest.variant, variants };
+			const failure = { message, args, children: closest.errors };
+			return { ok: false, failure: { ...failure, code: "Union" } };
 		}
 
-		return `must match one of the union variants (${reasons.join(" / ")})`;
+		const children = collectSchemaErrors(failures);
+		const failure = { message, args: { reasons: reasons.join(" / "), variants }, children };
+		return { ok: false, failure: { ...failure, code: "Union" } };
 	});
 }
 
@@ -126,7 +279,7 @@ export function Union(...schemas: SchemaLike[]) {
  * ## Behavior
  * - `nil` passes (no error).
  * - Validates against each schema and counts how many match.
- * - If `matches === 1`, passes.
+ * - If `matches === 1`, passes and replaces the property with the matched value (as `@Union`).
  * - If `matches === 0`, fails with combined reasons for why each variant failed.
  * - If `matches > 1`, fails with a message indicating how many matched.
  *
@@ -154,24 +307,35 @@ export function Union(...schemas: SchemaLike[]) {
  * }
  * ```
  */
-export function ExclusiveUnion(...schemas: SchemaLike[]) {
-	return ValidateBy("ExclusiveUnion", (value, ctx) => {
-		if (isNil(value)) return undefined;
+export function ExclusiveUnion(...args: SchemaArgs) {
+	const [schemas, options] = splitTrailingOptions<SchemaLike>(args, isSchemaOptions);
+	const { message, rule } = validatorOptions(options, "ExclusiveUnion");
 
+	return unionParser("ExclusiveUnion", rule, (value, ctx) => {
 		let matches = 0;
+		let match: { schema: SchemaLike; value: unknown } | undefined;
 		const reasons: string[] = [];
+		const failures: SchemaParseResult[] = [];
 
 		for (const s of schemas) {
 			const res = validateAgainstSchema(s, value, ctx);
-			if (res.ok) matches += 1;
-			else reasons.push(res.message ?? "did not match");
+			if (res.ok) {
+				matches += 1;
+				match = { schema: s, value: res.value };
+			} else {
+				reasons.push(res.message);
+				failures.push(res);
+			}
 		}
 
-		if (matches === 1) return undefined;
+		if (matches === 1 && match !== undefined) return matched(match.schema, match.value);
 
-		if (matches === 0)
-			return `must match exactly one variant (matched none: ${reasons.join(" / ")})`;
-		return `must match exactly one variant (matched ${matches})`;
+		if (matches === 0) {
+			const args = { matches, reasons: reasons.join(" / ") };
+			const children = collectSchemaErrors(failures);
+			return { ok: false, failure: { message, code: "ExclusiveUnion", args, children } };
+		}
+		return { ok: false, failure: { message, code: "ExclusiveUnion", args: { matches } } };
 	});
 }
 
@@ -212,21 +376,37 @@ export function ExclusiveUnion(...schemas: SchemaLike[]) {
  * }
  * ```
  */
-export function Intersect(...schemas: SchemaLike[]) {
-	return ValidateBy("Intersect", (value, ctx) => {
-		if (isNil(value)) return undefined;
+export function Intersect(...args: SchemaArgs) {
+	const [schemas, options] = splitTrailingOptions<SchemaLike>(args, isSchemaOptions);
+	const { message, rule } = validatorOptions(options, "Intersect");
 
-		const reasons: string[] = [];
+	return ValidateBy(
+		"Intersect",
+		(value, ctx) => {
+			if (isNil(value)) return undefined;
 
-		for (const s of schemas) {
-			const res = validateAgainstSchema(s, value, ctx);
-			if (!res.ok) reasons.push(res.message ?? "did not match");
-		}
+			const reasons: string[] = [];
+			const failures: SchemaParseResult[] = [];
 
-		return reasons.size() === 0
-			? undefined
-			: `must satisfy all intersected schemas (${reasons.join(" / ")})`;
-	});
+			for (const s of schemas) {
+				const res = validateAgainstSchema(s, value, ctx);
+				if (!res.ok) {
+					reasons.push(res.message);
+					failures.push(res);
+				}
+			}
+
+			return reasons.size() === 0
+				? undefined
+				: {
+						message,
+						args: { reasons: reasons.join(" / ") },
+						children: collectSchemaErrors(failures),
+					};
+		},
+		{},
+		rule,
+	);
 }
 
 /**
@@ -240,14 +420,17 @@ export function Intersect(...schemas: SchemaLike[]) {
  * 1) ensures the value is a table/object,
  * 2) reads `value[discriminator]`,
  * 3) picks the schema from `map`,
- * 4) validates against that schema.
+ * 4) parses the value with that schema, replacing the property with the parsed instance
+ *    (which keeps the discriminator even if the variant does not declare it).
  *
  * ## Behavior
  * - `nil` passes (no error).
  * - Non-table values fail with `"must be an object"`.
- * - If discriminator missing or not a string, fails with `message`.
+ * - If discriminator missing or not a string, fails with `message`
+ *   (use `@DiscriminatedUnionOf` for number or boolean tags).
  * - If discriminator string not found in `map`, fails with `message`.
- * - If schema validation fails, returns the underlying schema error if available, else `message`.
+ * - If schema validation fails, returns the underlying schema error if available, else `message`,
+ *   with the selected variant's nested errors attached as children.
  *
  * ## Important: allowing the discriminator key
  * You call:
@@ -284,6 +467,19 @@ export function Intersect(...schemas: SchemaLike[]) {
  * }
  * ```
  *
+ * ## Example: checked against a `Discriminated<>` type
+ * Passing the variant types makes the map exhaustive at compile time: a missing variant or
+ * a class that does not construct its variant is a type error.
+ * ```ts
+ * type Vehicles = { car: CarDto; bike: BikeDto };
+ *
+ * class Garage {
+ *   @DiscriminatedUnion<"type", Vehicles>("type", { car: CarDto, bike: BikeDto })
+ *   vehicle!: Discriminated<"type", Vehicles>;
+ * }
+ * ```
+ * Or derive the property type from the map with `DiscriminatedFrom<"type", typeof map>`.
+ *
  * ## Example: custom message
  * ```ts
  * @DiscriminatedUnion("kind", { a: A, b: B }, 'kind must be "a" or "b"')
@@ -295,22 +491,131 @@ export function Intersect(...schemas: SchemaLike[]) {
  * - If you also validate the discriminator inside the DTO (like `@IsLiteral("car")`),
  *   you get a stronger guarantee that the payload cannot “lie” about its tag.
  */
+export function DiscriminatedUnion<D extends string, M extends Record<string, object>>(
+	discriminator: D,
+	map: DiscriminatedMap<M>,
+	options?: ValidationMessage | ValidatorOptions,
+): ReturnType<typeof ValidateBy>;
+export function DiscriminatedUnion(
+	discriminator: string,
+	map: Record<string, SchemaLike>,
+	options?: ValidationMessage | ValidatorOptions,
+): ReturnType<typeof ValidateBy>;
 export function DiscriminatedUnion(
 	discriminator: string,
 	map: Record<string, SchemaLike>,
-	message = `invalid discriminator "${discriminator}"`,
+	options?: ValidationMessage | ValidatorOptions,
 ) {
-	return ValidateBy("DiscriminatedUnion", (value, ctx) => {
-		if (isNil(value)) return undefined;
-		if (!typeIs(value, "table")) return "must be an object";
+	const { message, rule } = validatorOptions(options, "DiscriminatedUnion");
 
-		const discValue = (value as unknown as Record<string, unknown>)[discriminator];
-		if (!typeIs(discValue, "string")) return message;
+	return discriminatedParser("DiscriminatedUnion", discriminator, message, rule, (tag) =>
+		typeIs(tag, "string") ? map[tag] : undefined,
+	);
+}
 
-		const schema = map[discValue as string];
-		if (schema === undefined) return message;
+/** Parse step shared by the discriminated unions; `pick` maps a tag to its variant */
+function discriminatedParser(
+	code: string,
+	discriminator: string,
+	message: ValidationMessage,
+	rule: RuleOptions,
+	pick: (tag: unknown) => SchemaLike | undefined,
+) {
+	const args = { discriminator };
+
+	return unionParser(code, rule, (value, ctx) => {
+		if (!typeIs(value, "table")) {
+			return { ok: false, failure: { message: localized("IsObject"), code, args } };
+		}
+
+		const discValue = (value as unknown as Record<string, unknown>)[discriminator];
+		const schema = isNil(discValue) ? undefined : pick(discValue);
+		if (schema === undefined) return { ok: false, failure: { message, code, args } };
 
 		const res = validateAgainstSchema(schema, value, ctx, { allowKeys: [discriminator] });
-		return res.ok ? undefined : (res.message ?? message);
+		if (!res.ok) {
+			return { ok: false, failure: { message: res.message, code, args, children: res.errors } };
+		}
+
+		// Keep the tag on the parsed instance even when the variant does not declare it
+		const parsed = res.value as Record<string, unknown>;
+		if (parsed[discriminator] === undefined) parsed[discriminator] = discValue;
+
+		return matched(schema, parsed);
 	});
 }
+
+/**
+ * Discriminated union whose tags are read from the variants themselves: each variant class
+ * declares its tag with `@IsLiteral(...)` on the `discriminator` property.
+ *
+ * The tag -> variant lookup is built once, when the decorator runs. Tags may be strings,
+ * numbers or booleans, and a variant may accept several (`@IsLiteral("car", "truck")`).
+ *
+ * Throws at decoration time when a variant has no `@IsLiteral` on `discriminator`, or when
+ * two variants claim the same tag.
+ *
+ * Otherwise behaves like `@DiscriminatedUnion`: the property is replaced by the parsed variant
+ * instance, and unknown or missing tags fail with `message`
+ * (default: `invalid discriminator "<discriminator>"`).
+ *
+ * ## Example
+ * ```ts
+ * class CarDto {
+ *   @IsLiteral("car")
+ *   type!: "car";
+ *
+ *   @IsNumber()
+ *   hp!: number;
+ * }
+ *
+ * class BikeDto {
+ *   @IsLiteral("bike")
+ *   type!: "bike";
+ *
+ *   @IsInteger()
+ *   gear!: number;
+ * }
+ *
+ * class Garage {
+ *   @DiscriminatedUnionOf("type", CarDto, BikeDto)
+ *   vehicle!: CarDto | BikeDto;
+ * }
+ *
+ * // Numeric tags work the same way
+ * class OpDto {
+ *   @DiscriminatedUnionOf("op", PingPacket, MovePacket) // @IsLiteral(1), @IsLiteral(2)
+ *   packet!: PingPacket | MovePacket;
+ * }
+ * ```
+ */
+export function DiscriminatedUnionOf(
+	discriminator: string,
+	...args: Ctor<object>[] | [...Ctor<object>[], ValidatorOptions]
+) {
+	const [variants, options] = splitTrailingOptions<Ctor<object>>(args, isSchemaOptions);
+	const { message, rule } = validatorOptions(options, "DiscriminatedUnionOf");
+
+	const byTag = new Map<Literal, Ctor<object>>();
+	for (const variant of variants) {
+		const tags = Reflect.getMetadata<Literal[]>(variant, META_LITERAL_KEY, discriminator);
+		if (tags === undefined) {
+			error(`DiscriminatedUnionOf: ${variant} has no @IsLiteral on "${discriminator}"`, 2);
+		}
+
+		for (const tag of tags) {
+			const other = byTag.get(tag);
+			if (other !== undefined) {
+				error(
+					`DiscriminatedUnionOf: ${variant} and ${other} both use ${literalToString(tag)} for "${discriminator}"`,
+					2,
+				);
+			}
+			byTag.set(tag, variant);
+		}
+	}
+
+	return discriminatedParser("DiscriminatedUnionOf", discriminator, message, rule, (tag) =>
+		byTag.get(tag as Literal),
+	);
+}
@@ -0,0 +1,198 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Coerce,
+	IsInteger,
+	IsString,
+	Min,
+	MinLength,
+	Transform,
+	ValidateByAsync,
+	WithFrom,
+	parseInto,
+	parseIntoAsync,
+	validate,
+	validateAsync,
+} from "../../src";
+
+const takenNames = new Set(["admin"]);
+let lookups = 0;
+
+/** Stands in for a DataStore lookup */
+function isTaken(name: string) {
+	lookups++;
+	return Promise.delay(0.01).andThen(() => takenNames.has(name));
+}
+
+class SignupDto extends WithFrom(class {}) {
+	@IsString()
+	@MinLength(3)
+	@ValidateByAsync("UsernameFree", (name) =>
+		isTaken(name as string).then((taken) => (taken ? "is already taken" : undefined)),
+	)
+	public username!: string;
+
+	@Coerce.CustomAsync((name) =>
+		Promise.delay(0.01).andThen(() => ({ ok: true, value: `${name as string}#1` })),
+	)
+	@IsString()
+	@Transform.CustomAsync((tag) => Promise.resolve({ ok: true, value: (tag as string).upper() }))
+	public tag!: string;
+}
+
+class SlowDto {
+	@IsInteger()
+	@ValidateByAsync("AssetExists", () => new Promise<undefined>(() => {}), {}, { timeout: 0.05 })
+	public assetId!: number;
+}
+
+class ProfileDto {
+	@IsString()
+	@ValidateByAsync("UsernameFree", (name) =>
+		isTaken(name as string).then((taken) => (taken ? "is already taken" : undefined)),
+	)
+	public username!: string;
+
+	@IsInteger()
+	@Min(13)
+	public age!: number;
+}
+
+class HandleDto {
+	@IsString()
+	@Transform.CustomAsync((handle) =>
+		isTaken(handle as string).then(() => ({ ok: true, value: handle })),
+	)
+	public handle!: string;
+
+	@Coerce.CustomAsync((code) => isTaken(code as string).then(() => ({ ok: true, value: code })))
+	@IsString()
+	public invite!: string;
+
+	@IsInteger()
+	@Min(13)
+	public age!: number;
+}
+
+class SettingsDto extends WithFrom(class {}) {
+	@IsString()
+	public theme!: string;
+
+	@IsInteger()
+	public volume!: number;
+}
+
+class AsyncRulesTest {
+	@Fact
+	public asyncRules_runInOrderUnderFrom() {
+		return SignupDto.from({ username: "builder", tag: "b" }).then((dto) => {
+			Assert.equal("builder", dto.username);
+			Assert.equal("B#1", dto.tag);
+		});
+	}
+
+	@Fact
+	public asyncValidator_reportsItsFailure() {
+		return SignupDto.safeFrom({ username: "admin", tag: "a" }).then((res) => {
+			Assert.false(res.ok);
+			if (res.ok) return;
+
+			Assert.equal(1, res.errors.size());
+			Assert.equal("UsernameFree", res.errors[0].details[0].code);
+			Assert.equal("is already taken", res.errors[0].constraints[0]);
+		});
+	}
+
+	@Fact
+	public asyncValidator_skippedWhenSyncRulesFail() {
+		const before = lookups;
+		return parseIntoAsync(new SignupDto(), { username: "ab", tag: "a" }).then((res) => {
+			Assert.false(res.ok);
+			if (res.ok) return;
+
+			Assert.equal("MinLength", res.errors[0].details[0].code);
+			Assert.equal(before, lookups);
+		});
+	}
+
+	@Fact
+	public asyncValidator_failsAfterItsTimeout() {
+		const dto = new SlowDto();
+		dto.assetId = 42;
+		return validateAsync(dto).then((errors) => {
+			Assert.equal(1, errors.size());
+			Assert.equal("Timeout", errors[0].details[0].code);
+			Assert.equal("timed out after 0.05 seconds", errors[0].constraints[0]);
+		});
+	}
+
+	@Fact
+	public asyncValidator_waitsForEveryPropertysSyncRules() {
+		const before = lookups;
+		return parseIntoAsync(new ProfileDto(), { username: "builder", age: 5 }).then((res) => {
+			Assert.false(res.ok);
+			if (res.ok) return;
+
+			Assert.equal(1, res.errors.size());
+			Assert.equal("Min", res.errors[0].details[0].code);
+			Assert.equal(before, lookups);
+		});
+	}
+
+	@Fact
+	public asyncCoercersAndTransforms_waitForEveryPropertysSyncRules() {
+		const before = lookups;
+		return parseIntoAsync(new HandleDto(), { handle: "builder", invite: "x", age: 5 }).then(
+			(res) => {
+				Assert.false(res.ok);
+				if (res.ok) return;
+
+				Assert.equal(1, res.errors.size());
+				Assert.equal("Min", res.errors[0].details[0].code);
+				Assert.equal(before, lookups);
+			},
+		);
+	}
+
+	@Fact
+	public syncEntrypoints_skipAsyncRules() {
+		const before = lookups;
+
+		const res = parseInto(new SignupDto(), { username: "admin", tag: "b" });
+		Assert.true(res.ok);
+		if (!res.ok) return;
+		Assert.equal("b", res.value.tag);
+
+		Assert.equal("b", SignupDto.fromSync({ username: "admin", tag: "b" }).tag);
+		Assert.true(SignupDto.is({ username: "admin", tag: "b" }));
+
+		const dto = new ProfileDto();
+		dto.username = "admin";
+		dto.age = 20;
+		Assert.empty(validate(dto));
+
+		Assert.equal(before, lookups);
+	}
+
+	@Fact
+	public from_withoutAsyncRules_resolvesWithinTheCall() {
+		// every step looks like it took a second, so a time-sliced run would yield at each checkpoint
+		let now = 0;
+		let yields = 0;
+		const scheduler = {
+			clock: () => (now += 1),
+			yield: () => {
+				yields += 1;
+			},
+		};
+
+		const pending = SettingsDto.from({ theme: "dark", volume: 3 }, { scheduler });
+		Assert.equal(Promise.Status.Resolved, pending.getStatus());
+		Assert.equal(0, yields);
+
+		return pending.then((settings) => {
+			Assert.equal("dark", settings.theme);
+		});
+	}
+}
+
+export = AsyncRulesTest;
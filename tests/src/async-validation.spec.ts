@@ -0,0 +1,125 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayElements,
+	ArrayOf,
+	IsInteger,
+	IsString,
+	NestedType,
+	ValidationScheduler,
+	parseInto,
+	parseIntoAsync,
+	validate,
+	validateAsync,
+} from "../../src";
+
+class SlotDto {
+	@IsString()
+	public item!: string;
+
+	@IsInteger()
+	public count!: number;
+}
+
+class BlobDto {
+	@ArrayElements((v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public scores!: unknown[];
+
+	@ArrayOf(SlotDto)
+	public slots!: SlotDto[];
+}
+
+class OwnerDto {
+	@NestedType(() => SlotDto)
+	public slot!: SlotDto;
+}
+
+/** Fake clock advancing one millisecond per reading; yields are only counted */
+function fakeScheduler(onYield: () => void = () => {}) {
+	let now = 0;
+	const scheduler: ValidationScheduler = {
+		clock() {
+			now += 0.001;
+			return now;
+		},
+		yield() {
+			onYield();
+		},
+	};
+
+	return scheduler;
+}
+
+function makeBlob() {
+	const scores: defined[] = [];
+	const slots: object[] = [];
+	for (let i = 1; i <= 500; i++) {
+		scores.push(i % 97 === 0 ? "bad" : i);
+		slots.push({ item: `item${i}`, count: i % 113 === 0 ? 0.5 : i });
+	}
+
+	return { scores, slots };
+}
+
+/** `validate` replaces `slots` with parsed instances, so every run gets its own blob */
+function makeBlobDto() {
+	const plain = makeBlob();
+	const blob = new BlobDto();
+	blob.scores = plain.scores;
+	blob.slots = plain.slots as SlotDto[];
+
+	return blob;
+}
+
+function paths(errors: { path: string; children: { path: string }[] }[]) {
+	const out: string[] = [];
+	for (const e of errors) {
+		out.push(e.path);
+		for (const c of e.children) out.push(c.path);
+	}
+
+	return out.join(",");
+}
+
+class AsyncValidationTest {
+	@Fact
+	public validateAsync_yieldsAndMatchesSyncResult() {
+		const expected = paths(validate(makeBlobDto()));
+
+		let yields = 0;
+		const scheduler = fakeScheduler(() => yields++);
+		return validateAsync(makeBlobDto(), { scheduler, budget: 0.01 }).then((errors) => {
+			Assert.true(yields > 0);
+			Assert.equal(expected, paths(errors));
+		});
+	}
+
+	@Fact
+	public parseIntoAsync_matchesSyncResult() {
+		const sync = parseInto(new BlobDto(), makeBlob());
+		Assert.false(sync.ok);
+		if (sync.ok) return;
+
+		return parseIntoAsync(new BlobDto(), makeBlob(), { scheduler: fakeScheduler() }).then((res) => {
+			Assert.false(res.ok);
+			if (res.ok) return;
+			Assert.equal(paths(sync.errors), paths(res.errors));
+		});
+	}
+
+	@Fact
+	public validationsWhileSuspended_startFromCleanState() {
+		const results: number[] = [];
+		const scheduler = fakeScheduler(() => {
+			const owner = new OwnerDto();
+			owner.slot = { item: "x", count: 1 };
+			results.push(validate(owner, { maxDepth: 1 }).size());
+		});
+
+		return parseIntoAsync(new BlobDto(), makeBlob(), { scheduler, maxDepth: 1 }).then(() => {
+			Assert.notEmpty(results);
+			for (const count of results) Assert.equal(0, count);
+		});
+	}
+}
+
+export = AsyncValidationTest;
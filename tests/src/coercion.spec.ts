@@ -44,6 +44,38 @@ class ReadonlyDto {
 	public data!: { nested: { arr: number[] } };
 }
 
+class ChainDto {
+	@IsOptional()
+	@Coerce.Number()
+	@Coerce.Default("5")
+	@IsNumber()
+	public count?: number;
+
+	@Coerce.Custom((v) => ({ ok: true, value: `${v as string}b` }))
+	@Coerce.Custom((v) => ({ ok: true, value: `${v as string}a` }))
+	public code!: string;
+}
+
+class MixedChainDto {
+	@Coerce.String()
+	@Coerce.Number()
+	@IsString()
+	public score!: string;
+}
+
+class InheritedChainDto {
+	@Coerce.Boolean()
+	public flag!: unknown;
+}
+
+class RedeclaredChainDto extends InheritedChainDto {}
+
+class ConflictDto {
+	public flag?: unknown;
+	public lang?: unknown;
+	public data?: unknown;
+}
+
 class CoercionTest {
 	private assertStringCoerceOk(input: unknown, expected: string) {
 		const dto = new CoercionDto();
@@ -215,6 +247,55 @@ class CoercionTest {
 		Assert.equal("sv", dto.lang);
 	}
 
+	// --- Chains ---
+
+	@Fact
+	public chain_runsClosestCoercerFirst() {
+		const dto = new ChainDto();
+		dto.code = "x";
+
+		Assert.empty(validate(dto));
+		Assert.equal(5, dto.count);
+		Assert.equal("xab", dto.code);
+	}
+
+	@Fact
+	public chain_composesCoercersOfDifferentTypes() {
+		const res = parseInto(new MixedChainDto(), { score: " 07 " });
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal("7", res.value.score);
+	}
+
+	@Fact
+	public chain_subclassRedeclaresInheritedCoercers() {
+		Coerce.Number()(RedeclaredChainDto, "flag");
+
+		const redeclared = parseInto(new RedeclaredChainDto(), { flag: "3" });
+		Assert.true(redeclared.ok);
+		if (!redeclared.ok) return;
+		Assert.equal(3, redeclared.value.flag);
+
+		const inherited = parseInto(new InheritedChainDto(), { flag: "true" });
+		Assert.true(inherited.ok);
+		if (!inherited.ok) return;
+		Assert.equal(true, inherited.value.flag);
+	}
+
+	@Fact
+	public chain_rejectsIncompatibleCoercersAtDecorationTime() {
+		Coerce.Boolean()(ConflictDto, "flag");
+		Assert.throws(() => Coerce.Number()(ConflictDto, "flag"));
+
+		Coerce.Readonly()(ConflictDto, "data");
+		Assert.throws(() => Coerce.String()(ConflictDto, "data"));
+
+		Coerce.Default("en")(ConflictDto, "lang");
+		Coerce.String()(ConflictDto, "lang");
+		Assert.throws(() => Coerce.Default("sv")(ConflictDto, "lang"));
+	}
+
 	// --- Readonly ---
 
 	@Fact
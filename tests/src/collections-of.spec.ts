@@ -0,0 +1,126 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayOf,
+	Coerce,
+	IsOptional,
+	IsString,
+	Lazy,
+	MapOf,
+	Min,
+	RecordOf,
+	WithFrom,
+	parseInto,
+	validate,
+} from "../../src";
+
+class WeaponDto {
+	@IsString()
+	public id!: string;
+
+	@Coerce.Number()
+	@Min(0)
+	public ammo!: number;
+}
+
+const IsUserId = (k: unknown) => (typeIs(k, "number") ? undefined : "expected numeric user id");
+
+class LoadoutDto extends WithFrom(class {}) {
+	@ArrayOf(Lazy(() => WeaponDto))
+	public weapons!: WeaponDto[];
+
+	@IsOptional()
+	@RecordOf(WeaponDto)
+	public slots?: Record<string, WeaponDto>;
+
+	@IsOptional()
+	@MapOf(IsUserId, WeaponDto)
+	public lent?: Map<number, WeaponDto>;
+
+	@IsOptional()
+	@ArrayOf((v) => (typeIs(v, "string") ? undefined : "must be a string"))
+	public tags?: string[];
+}
+
+class CollectionsOfTest {
+	@Fact
+	public arrayOf_replacesElementsWithInstances() {
+		const loadout = LoadoutDto.fromSync({
+			weapons: [
+				{ id: "ak", ammo: "30" },
+				{ id: "knife", ammo: 0 },
+			],
+		});
+
+		Assert.true(loadout.weapons[0] instanceof WeaponDto);
+		Assert.true(loadout.weapons[1] instanceof WeaponDto);
+		Assert.equal(30, loadout.weapons[0].ammo);
+	}
+
+	@Fact
+	public arrayOf_reportsEveryFailingIndex() {
+		const dto = new LoadoutDto();
+		const res = parseInto(dto, {
+			weapons: [{ id: 1, ammo: 1 }, { id: "ok", ammo: 1 }, { id: "x", ammo: -1 }, 5],
+		});
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		const err = res.errors[0];
+		Assert.equal("ArrayOf", err.details[0].code);
+		Assert.equal(3, err.children.size());
+		Assert.equal("weapons[1]", err.children[0].path);
+		Assert.equal("weapons[1].id", err.children[0].children[0].path);
+		Assert.equal("weapons[3].ammo", err.children[1].children[0].path);
+		Assert.equal("must be an object", err.children[2].constraints[0]);
+		Assert.equal(undefined, (dto as unknown as { weapons?: unknown }).weapons);
+	}
+
+	@Fact
+	public recordOf_parsesValuesAndReportsKeys() {
+		const ok = LoadoutDto.safeFromSync({ weapons: [], slots: { primary: { id: "ak", ammo: 1 } } });
+		Assert.true(ok.ok);
+		if (!ok.ok) return;
+		Assert.true(ok.value.slots?.primary instanceof WeaponDto);
+
+		const bad = LoadoutDto.safeFromSync({ weapons: [], slots: { primary: { id: "ak" } } });
+		Assert.false(bad.ok);
+		if (bad.ok) return;
+		Assert.equal("slots.primary", bad.errors[0].children[0].path);
+
+		const notRecord = LoadoutDto.safeFromSync({ weapons: [], slots: [{ id: "ak", ammo: 1 }] });
+		Assert.false(notRecord.ok);
+		if (notRecord.ok) return;
+		Assert.equal("must be a record", notRecord.errors[0].constraints[0]);
+	}
+
+	@Fact
+	public mapOf_checksKeysAndParsesValues() {
+		const ok = LoadoutDto.safeFromSync({ weapons: [], lent: { [42]: { id: "ak", ammo: 1 } } });
+		Assert.true(ok.ok);
+		if (!ok.ok) return;
+		Assert.true(ok.value.lent?.get(42) instanceof WeaponDto);
+
+		const bad = LoadoutDto.safeFromSync({ weapons: [], lent: { bob: { id: "ak", ammo: 1 } } });
+		Assert.false(bad.ok);
+		if (bad.ok) return;
+		Assert.equal("MapOf", bad.errors[0].details[0].code);
+		Assert.equal("expected numeric user id", bad.errors[0].children[0].constraints[0]);
+	}
+
+	@Fact
+	public predicateSchema_keepsElements() {
+		const dto = new LoadoutDto();
+		dto.weapons = [];
+		dto.tags = ["a", 1 as never];
+
+		const errs = validate(dto);
+		Assert.equal(1, errs.size());
+		Assert.equal("tags[2]", errs[0].children[0].path);
+
+		dto.tags = ["a", "b"];
+		Assert.empty(validate(dto));
+		Assert.equal("b", dto.tags[1]);
+	}
+}
+
+export = CollectionsOfTest;
@@ -0,0 +1,134 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayElements,
+	ArrayMaxSize,
+	Coerce,
+	IsLiteral,
+	IsNumber,
+	IsString,
+	Min,
+	MinLength,
+	ValidateBy,
+	parseInto,
+	validate,
+} from "../../src";
+
+class DetailsDto {
+	@IsNumber()
+	@Min(0)
+	public coins!: number;
+
+	@IsString()
+	@MinLength(3)
+	public name!: string;
+
+	@ArrayMaxSize(2)
+	@ArrayElements((v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public ids!: unknown[];
+
+	@IsLiteral("a", "b")
+	public mode!: string;
+}
+
+class CustomDto {
+	@ValidateBy("IsEven", (v) => (typeIs(v, "number") && v % 2 === 0 ? undefined : "must be even"), {
+		divisor: 2,
+	})
+	public n!: number;
+}
+
+class CoerceDto {
+	@Coerce.Number()
+	public n!: number;
+}
+
+function makeDto() {
+	const dto = new DetailsDto();
+	dto.coins = 1;
+	dto.name = "abc";
+	dto.ids = [1];
+	dto.mode = "a";
+	return dto;
+}
+
+class ConstraintDetailsTest {
+	@Fact
+	public builtIns_reportCodeArgsAndMessage() {
+		const dto = makeDto();
+		dto.coins = -5;
+
+		const errs = validate(dto);
+		Assert.equal(1, errs.size());
+
+		const detail = errs[0].details[0];
+		Assert.equal("Min", detail.code);
+		Assert.equal(0, detail.args.min);
+		Assert.equal(errs[0].constraints[0], detail.message);
+	}
+
+	@Fact
+	public details_areParallelToConstraints() {
+		const dto = makeDto();
+		dto.name = 5 as never;
+
+		const errs = validate(dto);
+		const details = errs[0].details;
+		Assert.equal(2, details.size());
+
+		for (let i = 0; i < details.size(); i++) {
+			Assert.equal(errs[0].constraints[i], details[i].message);
+		}
+
+		const minLength = details.find((d) => d.code === "MinLength");
+		Assert.defined(minLength);
+		Assert.equal(3, minLength?.args.minLength);
+		Assert.true(details.some((d) => d.code === "IsString"));
+	}
+
+	@Fact
+	public collectionChildren_carryTheParentCode() {
+		const dto = makeDto();
+		dto.ids = [1, "x", 2];
+
+		const errs = validate(dto);
+		const codes = errs[0].details.map((d) => d.code);
+		Assert.true(codes.includes("ArrayMaxSize"));
+		Assert.true(codes.includes("ArrayElements"));
+		Assert.equal("ArrayElements", errs[0].children[0].details[0].code);
+	}
+
+	@Fact
+	public isLiteral_reportsAllowedValues() {
+		const dto = makeDto();
+		dto.mode = "c";
+
+		const args = validate(dto)[0].details[0].args;
+		Assert.equal(2, (args.allowed as unknown[]).size());
+	}
+
+	@Fact
+	public customValidateBy_usesItsNameAndArgs() {
+		const dto = new CustomDto();
+		dto.n = 3;
+
+		const detail = validate(dto)[0].details[0];
+		Assert.equal("IsEven", detail.code);
+		Assert.equal(2, detail.args.divisor);
+		Assert.equal("must be even", detail.message);
+	}
+
+	@Fact
+	public coercionAndUnknownKeys_haveCodes() {
+		const res = parseInto(new CoerceDto(), { n: "nope" });
+		Assert.false(res.ok);
+		if (res.ok) return;
+		Assert.equal("Coerce", res.errors[0].details[0].code);
+
+		const unknown = parseInto(new CoerceDto(), { n: 1, extra: true });
+		Assert.false(unknown.ok);
+		if (unknown.ok) return;
+		Assert.equal("UnknownProperty", unknown.errors[0].details[0].code);
+	}
+}
+
+export = ConstraintDetailsTest;
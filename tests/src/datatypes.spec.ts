@@ -0,0 +1,137 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Color3Range,
+	IsBrickColor,
+	IsCFrame,
+	IsColor3,
+	IsFiniteVector,
+	IsNumberRange,
+	IsNumberSequence,
+	IsOptional,
+	IsUDim2,
+	IsVector2,
+	IsVector3,
+	VectorMagnitudeMax,
+	VectorWithinRegion,
+	validate,
+} from "../../src";
+
+class TypesDto {
+	@IsVector3()
+	public position: unknown = Vector3.zero;
+
+	@IsVector2()
+	public cursor: unknown = Vector2.zero;
+
+	@IsCFrame()
+	public pivot: unknown = new CFrame();
+
+	@IsColor3()
+	public tint: unknown = new Color3();
+
+	@IsUDim2()
+	public size: unknown = UDim2.fromScale(1, 1);
+
+	@IsBrickColor()
+	public team: unknown = new BrickColor("Bright red");
+
+	@IsNumberRange()
+	public lifetime: unknown = new NumberRange(1, 2);
+
+	@IsNumberSequence()
+	public transparency: unknown = new NumberSequence(0);
+}
+
+class MovePacket {
+	@IsFiniteVector()
+	@VectorMagnitudeMax(1)
+	public direction: unknown = new Vector3(0, 0, 1);
+
+	@IsOptional()
+	@VectorWithinRegion(new Vector3(-10, 0, -10), new Vector3(10, 5, 10))
+	public target?: unknown;
+
+	@IsOptional()
+	@VectorWithinRegion(new Vector2(0, 0), new Vector2(1, 1))
+	public anchor?: unknown;
+
+	@IsOptional()
+	@Color3Range(Color3.fromRGB(40, 40, 40), Color3.fromRGB(230, 230, 230))
+	public color?: unknown;
+}
+
+function codes(dto: object) {
+	const out = new Map<string, string>();
+	for (const e of validate(dto)) out.set(e.property, e.details[0].code);
+	return out;
+}
+
+class DatatypesTest {
+	@Fact
+	public typeChecks_acceptTheirDatatype() {
+		Assert.empty(validate(new TypesDto()));
+	}
+
+	@Fact
+	public typeChecks_rejectOtherValues() {
+		const dto = new TypesDto();
+		dto.position = new Vector2(1, 2);
+		dto.pivot = Vector3.zero;
+		dto.tint = { R: 1, G: 0, B: 0 };
+		dto.team = "Bright red";
+
+		const errs = codes(dto);
+		Assert.equal(4, errs.size());
+		Assert.equal("IsVector3", errs.get("position"));
+		Assert.equal("IsCFrame", errs.get("pivot"));
+		Assert.equal("IsColor3", errs.get("tint"));
+		Assert.equal("IsBrickColor", errs.get("team"));
+	}
+
+	@Fact
+	public finiteVector_rejectsNaNAndInfinity() {
+		const packet = new MovePacket();
+		packet.direction = new Vector3(0 / 0, 0, 0);
+		Assert.equal("IsFiniteVector", codes(packet).get("direction"));
+
+		packet.direction = new Vector2(math.huge, 0);
+		Assert.equal("IsFiniteVector", codes(packet).get("direction"));
+	}
+
+	@Fact
+	public magnitudeMax_limitsVectorLength() {
+		const packet = new MovePacket();
+		Assert.empty(validate(packet));
+
+		packet.direction = new Vector3(0, 3, 4);
+		const errs = validate(packet);
+		Assert.equal(1, errs.size());
+		Assert.equal("magnitude must be <= 1", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public withinRegion_checksEveryComponent() {
+		const packet = new MovePacket();
+		packet.target = new Vector3(10, 5, -10);
+		packet.anchor = new Vector2(0.5, 1);
+		Assert.empty(validate(packet));
+
+		packet.target = new Vector3(0, 6, 0);
+		packet.anchor = new Vector3(0.5, 0.5, 0);
+		const errs = codes(packet);
+		Assert.equal("VectorWithinRegion", errs.get("target"));
+		Assert.equal("VectorWithinRegion", errs.get("anchor"));
+	}
+
+	@Fact
+	public color3Range_checksEveryChannel() {
+		const packet = new MovePacket();
+		packet.color = Color3.fromRGB(100, 150, 200);
+		Assert.empty(validate(packet));
+
+		packet.color = Color3.fromRGB(100, 255, 200);
+		Assert.equal("Color3Range", codes(packet).get("color"));
+	}
+}
+
+export = DatatypesTest;
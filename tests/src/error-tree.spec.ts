@@ -0,0 +1,170 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayElements,
+	DiscriminatedUnion,
+	IsLiteral,
+	IsNumber,
+	Min,
+	Nested,
+	RecordEntries,
+	Union,
+	IsString,
+	parseInto,
+	validate,
+} from "../../src";
+
+class WeaponDto {
+	@IsNumber()
+	@Min(0)
+	public ammo!: number;
+}
+
+class LoadoutDto {
+	@Nested()
+	public primary!: WeaponDto;
+
+	@ArrayElements((v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public slots!: unknown[];
+}
+
+class PlayerDto {
+	@Nested()
+	public loadout!: LoadoutDto;
+}
+
+class CarDto {
+	@IsLiteral("car")
+	public type!: "car";
+
+	@IsNumber()
+	public hp!: number;
+}
+
+class NameDto {
+	@IsString()
+	public name!: string;
+}
+
+class TreeHost {
+	@RecordEntries(undefined, (v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public rec!: Record<string, unknown>;
+
+	@Union(NameDto, WeaponDto)
+	public either!: unknown;
+
+	@DiscriminatedUnion("type", { car: CarDto })
+	public vehicle!: unknown;
+}
+
+function makePlayer(ammo: unknown, slots: unknown[]) {
+	const weapon = new WeaponDto();
+	weapon.ammo = ammo as number;
+
+	const loadout = new LoadoutDto();
+	loadout.primary = weapon;
+	loadout.slots = slots;
+
+	const player = new PlayerDto();
+	player.loadout = loadout;
+	return player;
+}
+
+function makeHost() {
+	const host = new TreeHost();
+	host.rec = {};
+	host.either = { name: "ok" };
+	host.vehicle = { type: "car", hp: 1 };
+	return host;
+}
+
+class ErrorTreeTest {
+	@Fact
+	public nested_attachesChildErrorsWithFullPath() {
+		const errs = validate(makePlayer(-1, [1]));
+
+		Assert.equal(1, errs.size());
+		Assert.equal("loadout", errs[0].path);
+
+		const loadout = errs[0].children;
+		Assert.equal(1, loadout.size());
+		Assert.equal("loadout.primary", loadout[0].path);
+
+		const primary = loadout[0].children;
+		Assert.equal(1, primary.size());
+		Assert.equal("ammo", primary[0].property);
+		Assert.equal("loadout.primary.ammo", primary[0].path);
+		Assert.equal(-1, primary[0].value);
+	}
+
+	@Fact
+	public arrayElements_reportsEveryFailingIndex() {
+		const errs = validate(makePlayer(1, [1, "x", 3, "y"]));
+
+		const slots = errs[0].children[0];
+		Assert.equal("loadout.slots", slots.path);
+		Assert.equal(2, slots.children.size());
+		Assert.equal("loadout.slots[2]", slots.children[0].path);
+		Assert.equal("loadout.slots[4]", slots.children[1].path);
+		Assert.equal("y", slots.children[1].value);
+	}
+
+	@Fact
+	public validPayload_hasNoErrors() {
+		Assert.empty(validate(makePlayer(5, [1, 2])));
+	}
+
+	@Fact
+	public recordEntries_reportsKeyPaths() {
+		const host = makeHost();
+		host.rec = { good: 1, bad: "x", ["odd key"]: "y" };
+
+		const errs = validate(host);
+		Assert.equal(1, errs.size());
+		Assert.equal(2, errs[0].children.size());
+
+		const paths = errs[0].children.map((e) => e.path);
+		Assert.true(paths.includes("rec.bad"));
+		Assert.true(paths.includes('rec["odd key"]'));
+	}
+
+	@Fact
+	public union_attachesErrorsOfEveryVariant() {
+		const host = makeHost();
+		host.either = { name: 5 };
+
+		const errs = validate(host);
+		Assert.equal(1, errs.size());
+		Assert.equal("either", errs[0].path);
+
+		// NameDto rejects the value, WeaponDto rejects the unknown key
+		Assert.equal(2, errs[0].children.size());
+		Assert.equal("either.name", errs[0].children[0].path);
+		Assert.equal("either.name", errs[0].children[1].path);
+	}
+
+	@Fact
+	public discriminatedUnion_attachesSelectedVariantErrors() {
+		const host = makeHost();
+		host.vehicle = { type: "car", hp: "fast", extra: 1 };
+
+		const errs = validate(host);
+		Assert.equal(1, errs.size());
+		Assert.equal(1, errs[0].children.size());
+		Assert.equal("vehicle.extra", errs[0].children[0].path);
+
+		host.vehicle = { type: "car", hp: "fast" };
+		const retry = validate(host);
+		Assert.equal("vehicle.hp", retry[0].children[0].path);
+	}
+
+	@Fact
+	public parseInto_reportsUnknownKeyPaths() {
+		const res = parseInto(new PlayerDto(), { ["bad key"]: 1 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal('["bad key"]', res.errors[0].path);
+	}
+}
+
+export = ErrorTreeTest;
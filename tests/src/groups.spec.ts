@@ -0,0 +1,114 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Coerce,
+	IsLiteral,
+	IsNumber,
+	IsString,
+	Min,
+	MinLength,
+	Transform,
+	Union,
+	parseInto,
+	validate,
+} from "../../src";
+
+class NameDto {
+	@IsString()
+	public name!: string;
+}
+
+class AccountDto {
+	@IsString({ always: true })
+	@MinLength(3, { groups: ["create"], message: "name too short" })
+	public name!: string;
+
+	@IsNumber({ groups: ["create", "update"] })
+	@Min(100, { groups: ["admin"] })
+	public balance!: number;
+
+	@IsLiteral("user", "mod", { groups: ["admin"], message: "bad role" })
+	public role!: string;
+
+	@Union(NameDto, { groups: ["update"] })
+	public owner!: unknown;
+}
+
+class PipelineDto {
+	@Coerce.Custom((v) => ({ ok: true, value: tonumber(v) }), { groups: ["remote"] })
+	@Transform.Custom((v) => ({ ok: true, value: (v as number) * 2 }), { groups: ["remote"] })
+	public n!: unknown;
+}
+
+function makeAccount() {
+	const dto = new AccountDto();
+	dto.name = "ab";
+	dto.balance = 5;
+	dto.role = "owner";
+	dto.owner = { name: 1 };
+	return dto;
+}
+
+function codesOf(errs: ReturnType<typeof validate>) {
+	const codes: string[] = [];
+	for (const e of errs) for (const d of e.details) codes.push(d.code);
+	return codes;
+}
+
+class GroupsTest {
+	@Fact
+	public noGroups_runsEveryRule() {
+		const codes = codesOf(validate(makeAccount()));
+		for (const code of ["MinLength", "Min", "IsLiteral", "Union"]) {
+			Assert.true(codes.includes(code));
+		}
+	}
+
+	@Fact
+	public groups_selectMatchingRules() {
+		const create = codesOf(validate(makeAccount(), { groups: ["create"] }));
+		Assert.equal(1, create.size());
+		Assert.equal("MinLength", create[0]);
+
+		const admin = codesOf(validate(makeAccount(), { groups: ["admin"] }));
+		Assert.equal(2, admin.size());
+		Assert.true(admin.includes("Min"));
+		Assert.true(admin.includes("IsLiteral"));
+
+		const update = codesOf(validate(makeAccount(), { groups: ["update"] }));
+		Assert.equal(1, update.size());
+		Assert.equal("Union", update[0]);
+	}
+
+	@Fact
+	public always_runsForEveryGroup() {
+		const dto = makeAccount();
+		dto.name = 5 as never;
+
+		const errs = validate(dto, { groups: ["update"] });
+		const name = errs.find((e) => e.property === "name");
+		Assert.defined(name);
+		Assert.equal("IsString", name?.details[0].code);
+	}
+
+	@Fact
+	public options_carryCustomMessages() {
+		const errs = validate(makeAccount(), { groups: ["admin"] });
+		const role = errs.find((e) => e.property === "role");
+		Assert.equal("bad role", role?.constraints[0]);
+	}
+
+	@Fact
+	public groupedCoercersAndTransforms_onlyRunForTheirGroup() {
+		const remote = parseInto(new PipelineDto(), { n: "4" }, { groups: ["remote"] });
+		Assert.true(remote.ok);
+		if (!remote.ok) return;
+		Assert.equal(8, remote.value.n);
+
+		const other = parseInto(new PipelineDto(), { n: "4" }, { groups: ["store"] });
+		Assert.true(other.ok);
+		if (!other.ok) return;
+		Assert.equal("4", other.value.n);
+	}
+}
+
+export = GroupsTest;
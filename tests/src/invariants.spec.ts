@@ -0,0 +1,107 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	EqualsProperty,
+	GreaterThanProperty,
+	Invariant,
+	IsNumber,
+	IsString,
+	LessThanProperty,
+	parseInto,
+	validate,
+} from "../../src";
+
+@Invariant((o) => (o.minPrice === 13 ? "unlucky price" : undefined))
+@Invariant((o) => ((o.maxPrice as number) > 1000 ? "too expensive" : undefined), {
+	property: "maxPrice",
+	code: "PriceCap",
+})
+class ListingDto {
+	@IsNumber()
+	@LessThanProperty("maxPrice", { inclusive: true })
+	public minPrice!: number;
+
+	@IsNumber()
+	public maxPrice!: number;
+}
+
+class SignUpDto {
+	@IsString()
+	public password!: string;
+
+	@EqualsProperty("password", "passwords do not match")
+	public confirmPassword!: string;
+}
+
+class SessionDto {
+	@IsNumber()
+	public startedAt!: number;
+
+	@GreaterThanProperty("startedAt")
+	public endedAt!: number;
+}
+
+function makeListing(minPrice: unknown, maxPrice: unknown) {
+	const dto = new ListingDto();
+	dto.minPrice = minPrice as number;
+	dto.maxPrice = maxPrice as number;
+	return dto;
+}
+
+class InvariantsTest {
+	@Fact
+	public crossProperty_comparesAgainstOtherField() {
+		Assert.empty(validate(makeListing(5, 5)));
+
+		const errs = validate(makeListing(6, 5));
+		Assert.equal(1, errs.size());
+		Assert.equal("minPrice", errs[0].property);
+		Assert.equal("LessThanProperty", errs[0].details[0].code);
+		Assert.equal("must be <= maxPrice", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public crossProperty_runsOnlyAfterPropertiesPass() {
+		const errs = validate(makeListing(6, "x"));
+		Assert.equal(1, errs.size());
+		Assert.equal("maxPrice", errs[0].property);
+		Assert.equal("IsNumber", errs[0].details[0].code);
+	}
+
+	@Fact
+	public invariant_reportsOnClassOrChosenProperty() {
+		const unlucky = validate(makeListing(13, 20));
+		Assert.equal(1, unlucky.size());
+		Assert.equal("ListingDto", unlucky[0].property);
+		Assert.equal("Invariant", unlucky[0].details[0].code);
+		Assert.equal("unlucky price", unlucky[0].constraints[0]);
+
+		const capped = validate(makeListing(5, 2000));
+		Assert.equal("maxPrice", capped[0].property);
+		Assert.equal(2000, capped[0].value);
+		Assert.equal("PriceCap", capped[0].details[0].code);
+	}
+
+	@Fact
+	public parseInto_checksStagedValuesWithoutCommitting() {
+		const dto = new SignUpDto();
+		const res = parseInto(dto, { password: "hunter2", confirmPassword: "hunter3" });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("passwords do not match", res.errors[0].constraints[0]);
+		Assert.equal(undefined, (dto as unknown as { password?: string }).password);
+
+		Assert.true(parseInto(dto, { password: "hunter2", confirmPassword: "hunter2" }).ok);
+	}
+
+	@Fact
+	public greaterThan_isStrictByDefault() {
+		const res = parseInto(new SessionDto(), { startedAt: 10, endedAt: 10 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("must be > startedAt", res.errors[0].constraints[0]);
+	}
+}
+
+export = InvariantsTest;
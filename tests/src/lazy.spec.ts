@@ -0,0 +1,127 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayOf,
+	IsOptional,
+	IsString,
+	Lazy,
+	NestedType,
+	Union,
+	parseInto,
+	validate,
+} from "../../src";
+
+class TreeNode {
+	@IsString()
+	public label!: string;
+
+	@IsOptional()
+	@ArrayOf(Lazy(() => TreeNode))
+	public children?: TreeNode[];
+}
+
+class OwnerDto {
+	@IsString()
+	public name!: string;
+
+	@IsOptional()
+	@Union(Lazy(() => PetDto), { message: "invalid pet" })
+	public pet?: PetDto;
+}
+
+class PetDto {
+	@IsString()
+	public species!: string;
+
+	@IsOptional()
+	@Union(Lazy(() => OwnerDto))
+	public owner?: OwnerDto;
+}
+
+class LinkedNode {
+	@IsOptional()
+	@NestedType(() => LinkedNode)
+	public next?: LinkedNode;
+}
+
+class LinkedVariant {
+	@IsOptional()
+	@Union(Lazy(() => LinkedVariant))
+	public next?: LinkedVariant;
+}
+
+class LazyTest {
+	@Fact
+	public selfReference_parsesRecursively() {
+		const res = parseInto(new TreeNode(), {
+			label: "root",
+			children: [{ label: "a", children: [{ label: "a1" }] }, { label: "b" }],
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		const children = res.value.children;
+		Assert.defined(children);
+		const a = children[0];
+		Assert.true(a instanceof TreeNode);
+		Assert.defined(a.children);
+		Assert.equal("a1", a.children[0].label);
+	}
+
+	@Fact
+	public mutualReference_resolvesClassDeclaredLater() {
+		const owner = new OwnerDto();
+		owner.name = "ann";
+		owner.pet = { species: "cat", owner: { name: "ann" } } as never;
+		Assert.empty(validate(owner));
+
+		owner.pet = { species: 5 } as never;
+		const errs = validate(owner);
+		Assert.equal(1, errs.size());
+		Assert.equal("invalid pet", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public cyclicInput_failsInsteadOfRecursing() {
+		const plain: Record<string, unknown> = { label: "loop" };
+		plain.children = [plain];
+
+		const res = parseInto(new TreeNode(), plain);
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("children[1]", res.errors[0].children[0].path);
+		Assert.equal("must not contain a circular reference", res.errors[0].children[0].constraints[0]);
+	}
+
+	@Fact
+	public sharedTable_isNotACycle() {
+		const leaf = { label: "leaf" };
+		Assert.true(parseInto(new TreeNode(), { label: "root", children: [leaf, leaf] }).ok);
+	}
+
+	@Fact
+	public maxDepth_limitsNesting() {
+		const plain = { next: { next: { next: {} } } };
+		Assert.true(parseInto(new LinkedNode(), plain).ok);
+
+		const res = parseInto(new LinkedNode(), plain, { maxDepth: 2 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		const deepest = res.errors[0].children[0].children[0];
+		Assert.equal("next.next.next", deepest.path);
+		Assert.equal("MaxDepth", deepest.details[0].code);
+	}
+
+	@Fact
+	public maxDepth_countsEachUnionLevelOnce() {
+		const plain = { next: { next: { next: {} } } };
+
+		// same limit as through @NestedType: one level per input table
+		Assert.true(parseInto(new LinkedNode(), plain, { maxDepth: 3 }).ok);
+		Assert.true(parseInto(new LinkedVariant(), plain, { maxDepth: 3 }).ok);
+		Assert.false(parseInto(new LinkedVariant(), plain, { maxDepth: 2 }).ok);
+	}
+}
+
+export = LazyTest;
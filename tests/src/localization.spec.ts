@@ -0,0 +1,119 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	IsString,
+	Min,
+	fromTranslator,
+	registerLocale,
+	registerTranslator,
+	setFallbackLocales,
+	setLocale,
+	validate,
+} from "../../src";
+
+registerLocale("sv", {
+	Min: "måste vara minst $min",
+	IsString: (ctx) => `${ctx.property} måste vara en sträng`,
+});
+
+registerTranslator(
+	"de",
+	fromTranslator({
+		FormatByKey(key, args) {
+			if (key !== "Validation.Min") error(`missing key ${key}`);
+			return `muss mindestens ${(args as Record<string, unknown>).min} sein`;
+		},
+	}),
+);
+
+class LocalizedDto {
+	@Min(10)
+	public coins!: number;
+
+	@IsString()
+	public name!: string;
+}
+
+class OverrideDto {
+	@Min(10, "at least $min coins")
+	public coins!: number;
+}
+
+function makeDto() {
+	const dto = new LocalizedDto();
+	dto.coins = 1;
+	dto.name = "ok";
+	return dto;
+}
+
+class LocalizationTest {
+	@Fact
+	public perCallLocale_usesRegisteredTable() {
+		const errs = validate(makeDto(), { locale: "sv" });
+		Assert.equal("måste vara minst 10", errs[0].constraints[0]);
+		Assert.equal("Min", errs[0].details[0].code);
+	}
+
+	@Fact
+	public regionalLocale_fallsBackToBaseThenEnglish() {
+		const dto = makeDto();
+		dto.name = 5 as never;
+
+		const errs = validate(dto, { locale: "sv-SE" });
+		const byProperty = new Map(errs.map((e) => [e.property, e.constraints[0]]));
+		Assert.equal("måste vara minst 10", byProperty.get("coins"));
+		Assert.equal("name måste vara en sträng", byProperty.get("name"));
+
+		const unknown = validate(makeDto(), { locale: "fi" });
+		Assert.equal("must be >= 10", unknown[0].constraints[0]);
+	}
+
+	@Fact
+	public fallbackLocales_alwaysEndInEnglish() {
+		const dto = makeDto();
+		dto.name = 5 as never;
+
+		setFallbackLocales(["sv"]);
+		const errs = validate(dto, { locale: "de" });
+		setFallbackLocales(["en"]);
+
+		const byProperty = new Map(errs.map((e) => [e.property, e.constraints[0]]));
+		Assert.equal("muss mindestens 10 sein", byProperty.get("coins"));
+		Assert.equal("name måste vara en sträng", byProperty.get("name"));
+
+		setFallbackLocales([]);
+		const english = validate(makeDto(), { locale: "fi" });
+		setFallbackLocales(["en"]);
+
+		Assert.equal("must be >= 10", english[0].constraints[0]);
+	}
+
+	@Fact
+	public globalLocale_appliesWhenCallHasNone() {
+		setLocale("sv");
+		const errs = validate(makeDto());
+		setLocale("en");
+
+		Assert.equal("måste vara minst 10", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public translator_formatsByKeyAndFallsThrough() {
+		const dto = makeDto();
+		dto.name = 5 as never;
+
+		const errs = validate(dto, { locale: "de" });
+		const byProperty = new Map(errs.map((e) => [e.property, e.constraints[0]]));
+		Assert.equal("muss mindestens 10 sein", byProperty.get("coins"));
+		Assert.equal("must be a string", byProperty.get("name"));
+	}
+
+	@Fact
+	public explicitMessage_winsOverLocale() {
+		const dto = new OverrideDto();
+		dto.coins = 1;
+
+		Assert.equal("at least 10 coins", validate(dto, { locale: "sv" })[0].constraints[0]);
+	}
+}
+
+export = LocalizationTest;
@@ -0,0 +1,116 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayElements,
+	Coerce,
+	IsNumber,
+	Min,
+	MinLength,
+	ValidateBy,
+	parseInto,
+	validate,
+} from "../../src";
+
+class TemplateDto {
+	@Min(0, "$property must be at least $constraint1, got $value")
+	public coins!: number;
+
+	@MinLength(3, (ctx, args) => `${ctx.property} needs ${args.minLength} characters`)
+	public name!: string;
+
+	@ArrayElements((v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public ids!: unknown[];
+}
+
+class DefaultsDto {
+	@IsNumber()
+	@Min(5)
+	public n!: number;
+}
+
+class RangeDto {
+	@ValidateBy(
+		"InRange",
+		(v) =>
+			typeIs(v, "number") && v >= 1 && v <= 3 ? undefined : "expected $constraint1..$constraint2",
+		{ low: 1, high: 3 },
+		{ argOrder: ["low", "high"] },
+	)
+	public n!: number;
+
+	@ValidateBy("Literal", () => "costs $5 and $unknown")
+	public s!: string;
+}
+
+class CoerceMessageDto {
+	@Coerce.Number("$property: cannot read $value as a number")
+	public n!: number;
+}
+
+function makeDto() {
+	const dto = new TemplateDto();
+	dto.coins = 1;
+	dto.name = "abc";
+	dto.ids = [];
+	return dto;
+}
+
+class MessagesTest {
+	@Fact
+	public template_resolvesPropertyConstraintAndValue() {
+		const dto = makeDto();
+		dto.coins = -2;
+
+		const errs = validate(dto);
+		Assert.equal("coins must be at least 0, got -2", errs[0].constraints[0]);
+		Assert.equal("coins must be at least 0, got -2", errs[0].details[0].message);
+	}
+
+	@Fact
+	public factory_receivesContextAndArgs() {
+		const dto = makeDto();
+		dto.name = "a";
+
+		const errs = validate(dto);
+		Assert.equal("name needs 3 characters", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public defaultMessages_areResolved() {
+		const dto = new DefaultsDto();
+		dto.n = 1;
+
+		Assert.equal("must be >= 5", validate(dto)[0].constraints[0]);
+	}
+
+	@Fact
+	public collectionMessages_describeFirstFailingEntry() {
+		const dto = makeDto();
+		dto.ids = [1, "x"];
+
+		const errs = validate(dto);
+		Assert.equal("array elements invalid (at 2: must be number)", errs[0].constraints[0]);
+	}
+
+	@Fact
+	public argOrder_backsPositionalPlaceholders() {
+		const dto = new RangeDto();
+		dto.n = 9;
+		dto.s = "";
+
+		const errs = validate(dto);
+		const byProperty = new Map(errs.map((e) => [e.property, e.constraints[0]]));
+		Assert.equal("expected 1..3", byProperty.get("n"));
+		Assert.equal("costs $5 and $unknown", byProperty.get("s"));
+	}
+
+	@Fact
+	public coercerMessages_areTemplatesToo() {
+		const res = parseInto(new CoerceMessageDto(), { n: "abc" });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("n: cannot read abc as a number", res.errors[0].constraints[0]);
+	}
+}
+
+export = MessagesTest;
@@ -0,0 +1,129 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Coerce,
+	IsOptional,
+	IsString,
+	Min,
+	NestedType,
+	Transform,
+	Union,
+	WithFrom,
+	parseInto,
+	validate,
+} from "../../src";
+
+class EngineDto {
+	@Coerce.Number()
+	@Min(1)
+	public hp!: number;
+
+	@IsOptional()
+	@IsString()
+	@Transform.Uppercase()
+	public model?: string;
+
+	public power() {
+		return this.hp * 2;
+	}
+}
+
+class CarDto extends WithFrom(class {}) {
+	@IsString()
+	public name!: string;
+
+	@NestedType(() => EngineDto)
+	public engine!: EngineDto;
+}
+
+class TreeNode {
+	@IsString()
+	public label!: string;
+
+	@IsOptional()
+	@NestedType(() => TreeNode)
+	public child?: TreeNode;
+}
+
+class ParserConflictDto {
+	public engine?: unknown;
+}
+
+class NestedTypeTest {
+	@Fact
+	public from_instantiatesChildWithItsOwnPipeline() {
+		const car = CarDto.fromSync({ name: "kart", engine: { hp: "200", model: "v8" } });
+
+		Assert.true(car.engine instanceof EngineDto);
+		Assert.equal(400, car.engine.power());
+		Assert.equal("V8", car.engine.model);
+	}
+
+	@Fact
+	public childFailure_isReportedAndNothingIsCommitted() {
+		const car = new CarDto();
+		const res = parseInto(car, { name: "kart", engine: { hp: "0" } });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("NestedType", res.errors[0].details[0].code);
+		Assert.equal("engine.hp", res.errors[0].children[0].path);
+		Assert.equal(undefined, (car as unknown as { name?: string }).name);
+	}
+
+	@Fact
+	public childUnknownKeys_areChecked() {
+		const res = CarDto.safeFromSync({ name: "kart", engine: { hp: 1, turbo: true } });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("engine.turbo", res.errors[0].children[0].path);
+	}
+
+	@Fact
+	public nonTable_failsAsObject() {
+		const res = CarDto.safeFromSync({ name: "kart", engine: 5 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("must be an object", res.errors[0].constraints[0]);
+	}
+
+	@Fact
+	public thunk_allowsRecursiveTypes() {
+		const res = parseInto(new TreeNode(), {
+			label: "a",
+			child: { label: "b", child: { label: "c" } },
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.true(res.value.child?.child instanceof TreeNode);
+		Assert.equal("c", res.value.child?.child?.label);
+	}
+
+	@Fact
+	public secondParsingDecorator_errorsInsteadOfReplacingTheFirst() {
+		NestedType(() => EngineDto)(ParserConflictDto, "engine");
+		Assert.throws(() => Union(EngineDto)(ParserConflictDto, "engine"));
+
+		const dto = new ParserConflictDto();
+		dto.engine = { hp: "2" };
+		Assert.empty(validate(dto));
+		Assert.true(dto.engine instanceof EngineDto);
+	}
+
+	@Fact
+	public validate_handlesPlainAndInstanceChildren() {
+		const car = new CarDto();
+		car.name = "kart";
+		car.engine = { hp: "3" } as never;
+
+		Assert.empty(validate(car));
+		Assert.true(car.engine instanceof EngineDto);
+
+		car.engine.hp = 0;
+		Assert.equal("engine.hp", validate(car)[0].children[0].path);
+	}
+}
+
+export = NestedTypeTest;
@@ -0,0 +1,131 @@
+import { Reflect } from "@flamework/core";
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	IsInteger,
+	IsOptional,
+	IsString,
+	MaxLength,
+	Min,
+	ValidateBy,
+	invalidatePlans,
+	parseInto,
+	validate,
+} from "../../src";
+
+class PlayerStateDto {
+	@IsString()
+	@MaxLength(20)
+	public name!: string;
+
+	@IsInteger()
+	@Min(0)
+	public level!: number;
+
+	@IsInteger()
+	@Min(0)
+	public coins!: number;
+
+	@IsOptional()
+	@IsString()
+	public title?: string;
+}
+
+class LateRuleDto {
+	@IsString()
+	public name!: string;
+}
+
+const RUNS = 50;
+const BENCHMARK_RUNS = 2000;
+
+function makeState() {
+	const state = new PlayerStateDto();
+	state.name = "player";
+	state.level = 12;
+	state.coins = 340;
+	return state;
+}
+
+/** How many plans `run` compiles for `ctor`; compiling lists the class properties exactly once */
+function countCompiles(ctor: object, run: () => void) {
+	const reflect = Reflect as unknown as { getProperties: (obj: object) => string[] };
+	const getProperties = reflect.getProperties;
+
+	let compiles = 0;
+	reflect.getProperties = (obj) => {
+		if (obj === ctor) compiles += 1;
+		return getProperties(obj);
+	};
+
+	try {
+		run();
+	} finally {
+		reflect.getProperties = getProperties;
+	}
+
+	return compiles;
+}
+
+class PlanTest {
+	@Fact
+	public plan_isCompiledOnceAndReusedByEveryEntrypoint() {
+		invalidatePlans();
+
+		const compiles = countCompiles(PlayerStateDto, () => {
+			for (let i = 0; i < RUNS; i++) Assert.empty(validate(makeState()));
+			for (let i = 0; i < RUNS; i++) {
+				const res = parseInto(new PlayerStateDto(), { name: "p", level: 1, coins: 0 });
+				Assert.true(res.ok);
+			}
+		});
+
+		Assert.equal(1, compiles);
+	}
+
+	@Fact
+	public benchmark_reportsPlanAndReflectiveTimings() {
+		const state = makeState();
+
+		let started = os.clock();
+		for (let i = 0; i < BENCHMARK_RUNS; i++) Assert.empty(validate(state));
+		const cached = os.clock() - started;
+
+		// dropping the plan before every run makes each one read the metadata again
+		started = os.clock();
+		for (let i = 0; i < BENCHMARK_RUNS; i++) {
+			invalidatePlans();
+			Assert.empty(validate(state));
+		}
+		const reflective = os.clock() - started;
+
+		// reported only: wall-clock timings are too noisy to assert on
+		print(
+			string.format("plan: %.4fs, reflective: %.4fs (%d runs)", cached, reflective, BENCHMARK_RUNS),
+		);
+	}
+
+	@Fact
+	public decoratorAppliedLater_invalidatesPlan() {
+		const dto = new LateRuleDto();
+		dto.name = "x";
+		Assert.empty(validate(dto));
+
+		ValidateBy("NotX", (value) => (value === "x" ? "must not be x" : undefined))(
+			LateRuleDto,
+			"name",
+		);
+
+		// the decorator dropped the plan: it is compiled once more, then reused
+		const compiles = countCompiles(LateRuleDto, () => {
+			const errs = validate(dto);
+			Assert.equal(1, errs.size());
+			Assert.equal("NotX", errs[0].details[0].code);
+
+			Assert.equal(1, validate(dto).size());
+		});
+
+		Assert.equal(1, compiles);
+	}
+}
+
+export = PlanTest;
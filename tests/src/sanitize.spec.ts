@@ -0,0 +1,96 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Coerce,
+	IsOptional,
+	IsString,
+	MaxLength,
+	MinLength,
+	Sanitize,
+	parseInto,
+	validate,
+} from "../../src";
+
+class ChatDto {
+	@IsString()
+	@MinLength(1)
+	@MaxLength(10)
+	@Sanitize.Trim()
+	@Sanitize.StripRichText()
+	public text!: string;
+
+	@IsOptional()
+	@IsString()
+	@Sanitize.Lowercase()
+	@Sanitize.CollapseWhitespace()
+	@Coerce.String()
+	public channel?: string;
+}
+
+class CustomDto {
+	@IsOptional()
+	@IsString()
+	@Sanitize.Custom((v) => (v === "" ? undefined : v))
+	public nickname?: string;
+}
+
+class SanitizeTest {
+	@Fact
+	public validatorsSeeTheSanitizedValue() {
+		const res = parseInto(new ChatDto(), { text: "   " });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("MinLength", res.errors[0].details[0].code);
+	}
+
+	@Fact
+	public sanitizersRunInOrderAfterCoercion() {
+		const res = parseInto(new ChatDto(), {
+			text: ' <font color="#FF0000">hi</font> ',
+			channel: "  Global \t Chat ",
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal("hi", res.value.text);
+		Assert.equal("global chat", res.value.channel);
+	}
+
+	@Fact
+	public richTextOnlyCountsTowardsLimitsOnceStripped() {
+		const dto = new ChatDto();
+		dto.text = "<b><i>hello</i></b>";
+
+		Assert.empty(validate(dto));
+		Assert.equal("hello", dto.text);
+	}
+
+	@Fact
+	public nestedRichText_cannotRebuildATag() {
+		const dto = new ChatDto();
+		dto.text = "<<b>b>hi<</i>i>";
+
+		Assert.empty(validate(dto));
+		Assert.equal("hi", dto.text);
+	}
+
+	@Fact
+	public nonStrings_areLeftForTheValidators() {
+		const res = parseInto(new ChatDto(), { text: 5 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("IsString", res.errors[0].details[0].code);
+	}
+
+	@Fact
+	public custom_canTurnValuesIntoNil() {
+		const res = parseInto(new CustomDto(), { nickname: "" });
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal(undefined, res.value.nickname);
+	}
+}
+
+export = SanitizeTest;
@@ -0,0 +1,104 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	ArrayElements,
+	ArrayMaxSize,
+	ArrayMinSize,
+	IsArray,
+	IsMap,
+	IsOptional,
+	IsRecord,
+	IsSet,
+	TupleLength,
+	validate,
+} from "../../src";
+
+class ShapeDto {
+	@IsOptional()
+	@IsArray()
+	public list?: unknown;
+
+	@IsOptional()
+	@IsRecord()
+	public record?: unknown;
+
+	@IsOptional()
+	@IsMap()
+	public map?: unknown;
+
+	@IsOptional()
+	@IsSet()
+	public set?: unknown;
+
+	@IsOptional()
+	@TupleLength(2)
+	public pair?: unknown;
+}
+
+class InventoryDto {
+	@IsArray()
+	@ArrayMinSize(1)
+	@ArrayMaxSize(10000)
+	@ArrayElements((v) => (typeIs(v, "number") ? undefined : "must be number"))
+	public items!: number[];
+}
+
+function failing(dto: ShapeDto) {
+	return validate(dto).map((e) => e.property);
+}
+
+function shapeDto(values: Partial<ShapeDto>) {
+	const dto = new ShapeDto();
+	for (const [k, v] of pairs(values)) (dto as Record<string, unknown>)[k] = v;
+	return dto;
+}
+
+class TableShapeTest {
+	@Fact
+	public emptyTable_isEveryCollection() {
+		Assert.empty(failing(shapeDto({ list: {}, record: {}, map: {}, set: {} })));
+	}
+
+	@Fact
+	public holeyArray_isAMapNotAnArray() {
+		const holey = { [1]: "a", [3]: "b" };
+		const errs = failing(shapeDto({ list: holey, map: holey, pair: holey }));
+
+		Assert.equal(2, errs.size());
+		Assert.true(errs.includes("list"));
+		Assert.true(errs.includes("pair"));
+	}
+
+	@Fact
+	public mixedKeys_areNeitherArrayNorRecord() {
+		const mixed = { [1]: "a", name: "b" };
+		const errs = failing(shapeDto({ list: mixed, record: mixed, map: mixed }));
+
+		Assert.equal(2, errs.size());
+		Assert.true(errs.includes("list"));
+		Assert.true(errs.includes("record"));
+	}
+
+	@Fact
+	public array_isRejectedByKeyedCollections() {
+		const arr = [true, true];
+		const errs = failing(shapeDto({ record: arr, map: arr, set: arr, pair: arr }));
+
+		Assert.equal(3, errs.size());
+		Assert.false(errs.includes("pair"));
+	}
+
+	@Fact
+	public largeInventory_isCheckedByEveryArrayValidator() {
+		const inventory = new InventoryDto();
+		inventory.items = [];
+		for (let i = 1; i <= 10000; i++) inventory.items.push(i);
+		Assert.empty(validate(inventory));
+
+		inventory.items.push(10001);
+		const errs = validate(inventory);
+		Assert.equal(1, errs.size());
+		Assert.equal("ArrayMaxSize", errs[0].details[0].code);
+	}
+}
+
+export = TableShapeTest;
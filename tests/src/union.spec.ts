@@ -4,9 +4,19 @@ import {
 	ExclusiveUnion,
 	Intersect,
 	DiscriminatedUnion,
+	DiscriminatedUnionOf,
+	Discriminated,
+	DiscriminatedFrom,
 	IsString,
 	IsNumber,
+	IsLiteral,
 	Min,
+	Coerce,
+	Transform,
+	UnionVariantFailure,
+	WithFrom,
+	getMatchedVariant,
+	parseInto,
 	validate,
 } from "../../src";
 
@@ -41,6 +51,162 @@ class UnionHost {
 	public disc!: unknown;
 }
 
+class ChatDto {
+	@IsString()
+	@Transform.Trim()
+	public text!: string;
+
+	public shout() {
+		return this.text.upper();
+	}
+}
+
+class MoveDto {
+	@Coerce.Number()
+	public speed!: number;
+}
+
+const IsPing = (v: unknown) => (v === "ping" ? undefined : 'must be "ping"');
+
+class MessageDto extends WithFrom(class {}) {
+	@Union(IsPing, ChatDto, MoveDto)
+	public body!: ChatDto | MoveDto | "ping";
+
+	@DiscriminatedUnion("kind", { chat: ChatDto, move: MoveDto })
+	public payload!: (ChatDto | MoveDto) & { kind: string };
+
+	@ExclusiveUnion(ChatDto, MoveDto)
+	public only!: ChatDto | MoveDto;
+}
+
+class CarVariant {
+	@IsLiteral("car")
+	public type!: string;
+
+	@IsNumber()
+	public hp!: number;
+}
+
+class BikeVariant {
+	@IsLiteral("bike")
+	public type!: string;
+
+	@IsNumber()
+	public gear!: number;
+
+	@IsString()
+	public brand!: string;
+}
+
+class BoatVariant {
+	@IsLiteral("boat")
+	public type!: string;
+
+	@IsNumber()
+	public gear!: number;
+}
+
+class VehicleHost {
+	@Union(CarVariant, BoatVariant, BikeVariant, { bestMatch: true })
+	public vehicle!: unknown;
+}
+
+class ShotVariant {
+	@IsLiteral("shot")
+	public kind!: string;
+
+	@IsNumber()
+	public x!: number;
+
+	@IsNumber()
+	public y!: number;
+}
+
+class TargetHost {
+	@Union((v) => (v === "none" ? undefined : 'must be "none"'), ShotVariant, { bestMatch: true })
+	public target!: unknown;
+}
+
+class PingPacket {
+	@IsLiteral(1)
+	public op!: number;
+}
+
+class MovePacket {
+	@IsLiteral(2, 3)
+	public op!: number;
+
+	@Coerce.Number()
+	public speed!: number;
+}
+
+class FlagOn {
+	@IsLiteral(true)
+	public on!: boolean;
+}
+
+class FlagOff {
+	@IsLiteral(false)
+	public on!: boolean;
+
+	@IsString()
+	public reason!: string;
+}
+
+class UntaggedPacket {
+	@IsNumber()
+	public op!: number;
+}
+
+class PacketHost {
+	@DiscriminatedUnionOf("op", PingPacket, MovePacket)
+	public packet!: PingPacket | MovePacket;
+
+	@DiscriminatedUnionOf("on", FlagOn, FlagOff, { message: "bad flag" })
+	public flag!: FlagOn | FlagOff;
+}
+
+type Packets = { ping: PingPacket; move: MovePacket };
+const packetMap = { ping: PingPacket, move: MovePacket };
+
+class TypedHost {
+	@DiscriminatedUnion<"kind", Packets>("kind", { ping: PingPacket, move: MovePacket })
+	public typed!: Discriminated<"kind", Packets>;
+
+	@DiscriminatedUnion("kind", packetMap)
+	public derived!: DiscriminatedFrom<"kind", typeof packetMap>;
+}
+
+class ChatPacket {
+	@IsLiteral("chat")
+	public kind!: "chat";
+
+	@IsString()
+	public text!: string;
+}
+
+class EmotePacket {
+	@IsLiteral("emote")
+	public kind!: "emote";
+
+	@IsString()
+	public emote!: string;
+}
+
+type Social = { chat: ChatPacket; emote: EmotePacket };
+type SocialMap = { chat: typeof ChatPacket; emote: typeof EmotePacket };
+/** Its chat variant is shaped like a chat packet, but tagged as an emote */
+type MislabeledMap = { chat: new () => { kind: "emote"; text: string }; emote: typeof EmotePacket };
+
+/** `true` when `A` and `B` are assignable to each other (tuples keep `never` from distributing) */
+type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/** The `map` parameter of the typed overload `DiscriminatedUnion<"kind", Social>` */
+type SocialMapParam = Parameters<typeof DiscriminatedUnion<"kind", Social>>[1];
+
+/** Whether a map of type `Map` type-checks as `SocialMapParam` */
+type AcceptedBySocial<Map> = Map extends SocialMapParam ? true : false;
+
 class UnionTest {
 	@Fact
 	public union_acceptsEitherVariant() {
@@ -125,6 +291,147 @@ class UnionTest {
 		Assert.notEmpty(errs);
 		Assert.equal("disc", errs[0].property);
 	}
+
+	@Fact
+	public parse_replacesPropertiesWithMatchedInstances() {
+		const msg = MessageDto.fromSync({
+			body: { speed: "4" },
+			payload: { kind: "chat", text: "  hi " },
+			only: { text: "yo" },
+		});
+
+		Assert.true(msg.body instanceof MoveDto);
+		Assert.equal(4, (msg.body as MoveDto).speed);
+		Assert.equal(MoveDto, getMatchedVariant(msg.body));
+
+		Assert.true(msg.payload instanceof ChatDto);
+		Assert.equal("HI", (msg.payload as ChatDto).shout());
+		Assert.equal("chat", msg.payload.kind);
+		Assert.equal(ChatDto, getMatchedVariant(msg.payload));
+
+		Assert.true(msg.only instanceof ChatDto);
+	}
+
+	@Fact
+	public predicateVariant_keepsValue() {
+		const res = parseInto(new MessageDto(), {
+			body: "ping",
+			payload: { kind: "move", speed: 1 },
+			only: { speed: 2 },
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal("ping", res.value.body);
+		Assert.equal(undefined, getMatchedVariant(res.value.body));
+	}
+
+	@Fact
+	public bestMatch_reportsClosestVariantOnly() {
+		const host = new VehicleHost();
+		host.vehicle = { type: "bike", gear: "x", brand: "bmx" };
+
+		const errs = validate(host);
+		Assert.equal(1, errs.size());
+
+		const detail = errs[0].details[0];
+		Assert.equal(2, detail.args.closest);
+		Assert.equal(
+			"must match one of the union variants (closest: gear: must be a number)",
+			detail.message,
+		);
+		Assert.equal(1, errs[0].children.size());
+		Assert.equal("vehicle.gear", errs[0].children[0].path);
+
+		const variants = detail.args.variants as UnionVariantFailure[];
+		Assert.equal(3, variants.size());
+		Assert.equal("UnknownProperty", variants[0].errors[0].details[0].code);
+	}
+
+	@Fact
+	public bestMatch_prefersMatchedTagOverPredicate() {
+		const host = new TargetHost();
+		host.target = { kind: "shot", x: "a", y: "b" };
+
+		const errs = validate(host);
+		Assert.equal(1, errs.size());
+		Assert.equal(1, errs[0].details[0].args.closest);
+		Assert.equal(2, errs[0].children.size());
+		Assert.equal("target.x", errs[0].children[0].path);
+	}
+
+	@Fact
+	public union_listsEveryVariantInArgs() {
+		const host = new UnionHost();
+		host.u = { b: 0 } as never;
+
+		const variants = validate(host)[0].details[0].args.variants as UnionVariantFailure[];
+		Assert.equal(2, variants.size());
+		Assert.equal(1, variants[1].variant);
+	}
+
+	@Fact
+	public discriminatedUnionOf_readsTagsFromIsLiteral() {
+		const res = parseInto(new PacketHost(), {
+			packet: { op: 3, speed: "2" },
+			flag: { on: false, reason: "afk" },
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.true(res.value.packet instanceof MovePacket);
+		Assert.equal(2, (res.value.packet as MovePacket).speed);
+		Assert.true(res.value.flag instanceof FlagOff);
+	}
+
+	@Fact
+	public discriminatedUnionOf_rejectsUnknownTags() {
+		const res = parseInto(new PacketHost(), { packet: { op: "1" }, flag: { on: "yes" } });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		const packet = res.errors.find((e) => e.property === "packet");
+		Assert.equal('invalid discriminator "op"', packet?.constraints[0]);
+		const flag = res.errors.find((e) => e.property === "flag");
+		Assert.equal("bad flag", flag?.constraints[0]);
+	}
+
+	@Fact
+	public discriminatedUnionOf_failsAtDecorationTime() {
+		Assert.throws(() => DiscriminatedUnionOf("op", PingPacket, UntaggedPacket));
+		Assert.throws(() => DiscriminatedUnionOf("op", MovePacket, PingPacket, MovePacket));
+	}
+
+	@Fact
+	public typedDiscriminatedUnion_parsesVariants() {
+		const res = parseInto(new TypedHost(), {
+			typed: { kind: "move", op: 2, speed: 1 },
+			derived: { kind: "ping", op: 1 },
+		});
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal("move", res.value.typed.kind);
+		Assert.true(res.value.derived instanceof PingPacket);
+		if (res.value.derived.kind === "ping") Assert.equal(1, res.value.derived.op);
+	}
+
+	@Fact
+	public typedDiscriminatedUnion_rejectsMapsThatDisagreeWithTheVariants() {
+		// Each annotation only compiles while the typed overload behaves as claimed
+		const complete: AcceptedBySocial<SocialMap> = true;
+		const missingVariant: AcceptedBySocial<{ chat: typeof ChatPacket }> = false;
+		const mislabeledClass: AcceptedBySocial<MislabeledMap> = false;
+		// map literals get excess property checks, so exact keys also reject extra tags
+		const exactTags: Equals<keyof SocialMapParam, keyof Social> = true;
+		const noDerivedChat: Equals<
+			Extract<DiscriminatedFrom<"kind", MislabeledMap>, { kind: "chat" }>,
+			never
+		> = true;
+
+		Assert.true(complete && exactTags && noDerivedChat);
+		Assert.false(missingVariant || mislabeledClass);
+	}
 }
 
 export = UnionTest;
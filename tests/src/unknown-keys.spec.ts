@@ -0,0 +1,63 @@
+import { Fact, Assert } from "@rbxts/runit";
+import { IsNumber, IsString, UnknownKeys, Union, WithFrom, parseInto, validate } from "../../src";
+
+@UnknownKeys("strip")
+class SaveData extends WithFrom(class {}) {
+	@IsNumber()
+	public coins!: number;
+}
+
+@UnknownKeys("passthrough")
+class LooseDto {
+	@IsNumber()
+	public coins!: number;
+}
+
+@UnknownKeys("strip")
+class LenientName {
+	@IsString()
+	public name!: string;
+}
+
+class HostDto {
+	@Union(LenientName)
+	public either!: unknown;
+}
+
+class UnknownKeysTest {
+	@Fact
+	public classDefault_stripsRetiredFields() {
+		return SaveData.from({ coins: 5, gems: 2 }).then((save) => {
+			Assert.equal(5, save.coins);
+			Assert.equal(undefined, (save as unknown as { gems?: number }).gems);
+		});
+	}
+
+	@Fact
+	public classDefault_passthroughKeepsExtras() {
+		const res = parseInto(new LooseDto(), { coins: 1, note: "hi" });
+		Assert.true(res.ok);
+		if (!res.ok) return;
+
+		Assert.equal("hi", (res.value as unknown as { note?: string }).note);
+	}
+
+	@Fact
+	public callOption_overridesClassDefault() {
+		const res = parseInto(new SaveData(), { coins: 5, gems: 2 }, { unknownKeys: "reject" });
+		Assert.false(res.ok);
+		if (res.ok) return;
+
+		Assert.equal("UnknownProperty", res.errors[0].details[0].code);
+	}
+
+	@Fact
+	public classDefault_appliesToUnionSchemas() {
+		const host = new HostDto();
+		host.either = { name: "ok", legacy: 1 };
+
+		Assert.empty(validate(host));
+	}
+}
+
+export = UnknownKeysTest;
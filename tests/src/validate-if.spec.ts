@@ -0,0 +1,82 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	Coerce,
+	IsLiteral,
+	IsString,
+	MinLength,
+	Transform,
+	ValidateIf,
+	parseInto,
+	validate,
+} from "../../src";
+
+class OrderDto {
+	@IsLiteral("paid", "refunded")
+	public status!: string;
+
+	@ValidateIf((o) => o.status === "refunded")
+	@IsString()
+	@MinLength(5)
+	@Transform.Uppercase()
+	public refundReason?: string;
+}
+
+class StackedDto {
+	@Coerce.Number()
+	public level!: number;
+
+	@ValidateIf((o) => o.enabled === true)
+	@ValidateIf((_, value) => value !== "skip")
+	@Coerce.Number()
+	public bonus?: number;
+
+	public enabled?: boolean;
+}
+
+class ValidateIfTest {
+	@Fact
+	public validate_skipsPropertyWhenConditionFails() {
+		const dto = new OrderDto();
+		dto.status = "paid";
+		dto.refundReason = 5 as never;
+		Assert.empty(validate(dto));
+
+		dto.status = "refunded";
+		const errs = validate(dto);
+		Assert.equal(1, errs.size());
+		Assert.equal("refundReason", errs[0].property);
+	}
+
+	@Fact
+	public parseInto_evaluatesAgainstStagedValues() {
+		const paid = parseInto(new OrderDto(), { status: "paid", refundReason: "x" });
+		Assert.true(paid.ok);
+		if (!paid.ok) return;
+		// skipped properties are committed untouched (no transform)
+		Assert.equal("x", paid.value.refundReason);
+
+		const refunded = parseInto(new OrderDto(), { status: "refunded", refundReason: "x" });
+		Assert.false(refunded.ok);
+
+		const ok = parseInto(new OrderDto(), { status: "refunded", refundReason: "damaged" });
+		Assert.true(ok.ok);
+		if (!ok.ok) return;
+		Assert.equal("DAMAGED", ok.value.refundReason);
+	}
+
+	@Fact
+	public stackedConditions_mustAllHold() {
+		const dto = new StackedDto();
+		(dto as unknown as { enabled: boolean }).enabled = true;
+		(dto as unknown as { level: string }).level = "1";
+
+		(dto as unknown as { bonus: string }).bonus = "skip";
+		Assert.empty(validate(dto));
+		Assert.equal("skip", dto.bonus);
+
+		(dto as unknown as { bonus: string }).bonus = "nope";
+		Assert.equal(1, validate(dto).size());
+	}
+}
+
+export = ValidateIfTest;
@@ -0,0 +1,134 @@
+import { Fact, Assert } from "@rbxts/runit";
+import {
+	IsNumber,
+	IsString,
+	Min,
+	Union,
+	ValidateBy,
+	WithFrom,
+	parseInto,
+	validate,
+} from "../../src";
+
+class StatsDto {
+	@IsNumber()
+	public hp!: number;
+
+	@IsNumber()
+	public mp!: number;
+
+	@IsString()
+	public name!: string;
+}
+
+class NameDto {
+	@IsString()
+	public name!: string;
+}
+
+class HostDto {
+	@Union(NameDto)
+	public either!: unknown;
+}
+
+class GroupedDto {
+	@Min(0)
+	@ValidateBy(
+		"IsAdminLevel",
+		(v) => (v === 99 ? undefined : "must be 99"),
+		{},
+		{ groups: ["admin"] },
+	)
+	public level!: number;
+}
+
+class PlayerDto extends WithFrom(class {}) {
+	@IsString()
+	public name!: string;
+}
+
+function makeStats() {
+	const dto = new StatsDto();
+	dto.hp = "x" as never;
+	dto.mp = "y" as never;
+	dto.name = 1 as never;
+	return dto;
+}
+
+class ValidationOptionsTest {
+	@Fact
+	public abortEarly_stopsAtFirstFailingProperty() {
+		Assert.equal(3, validate(makeStats()).size());
+		Assert.equal(1, validate(makeStats(), { abortEarly: true }).size());
+	}
+
+	@Fact
+	public maxErrors_capsReportedProperties() {
+		Assert.equal(2, validate(makeStats(), { maxErrors: 2 }).size());
+
+		const res = parseInto(new StatsDto(), { a: 1, b: 2, c: 3 }, { maxErrors: 1 });
+		Assert.false(res.ok);
+		if (res.ok) return;
+		Assert.equal(1, res.errors.size());
+	}
+
+	@Fact
+	public unknownKeys_strategies() {
+		const plain = { hp: 1, mp: 2, name: "x", legacy: true };
+
+		Assert.false(parseInto(new StatsDto(), plain).ok);
+
+		const stripped = parseInto(new StatsDto(), plain, { unknownKeys: "strip" });
+		Assert.true(stripped.ok);
+		if (!stripped.ok) return;
+		Assert.equal(undefined, (stripped.value as unknown as { legacy?: boolean }).legacy);
+
+		const kept = parseInto(new StatsDto(), plain, { unknownKeys: "passthrough" });
+		Assert.true(kept.ok);
+		if (!kept.ok) return;
+		Assert.equal(true, (kept.value as unknown as { legacy?: boolean }).legacy);
+	}
+
+	@Fact
+	public unknownKeys_reachUnionSchemas() {
+		const host = new HostDto();
+		host.either = { name: "ok", legacy: 1 };
+
+		Assert.equal(1, validate(host).size());
+		Assert.empty(validate(host, { unknownKeys: "strip" }));
+	}
+
+	@Fact
+	public skipMissingProperties_skipsNilValues() {
+		const res = parseInto(new StatsDto(), { hp: 1 }, { skipMissingProperties: true });
+		Assert.true(res.ok);
+
+		const bad = parseInto(new StatsDto(), { hp: "x" }, { skipMissingProperties: true });
+		Assert.false(bad.ok);
+	}
+
+	@Fact
+	public groups_onlyRunMatchingRules() {
+		const dto = new GroupedDto();
+		dto.level = 5;
+
+		const all = validate(dto);
+		Assert.equal("IsAdminLevel", all[0].details[0].code);
+
+		const admin = validate(dto, { groups: ["admin"] });
+		Assert.equal(1, admin[0].details.size());
+		Assert.equal("IsAdminLevel", admin[0].details[0].code);
+
+		dto.level = -1;
+		Assert.empty(validate(dto, { groups: ["other"] }));
+	}
+
+	@Fact
+	public from_forwardsOptions() {
+		return PlayerDto.from({ name: "a", legacy: 1 }, { unknownKeys: "strip" }).then((p) => {
+			Assert.equal("a", p.name);
+		});
+	}
+}
+
+export = ValidationOptionsTest;
@@ -54,6 +54,92 @@ class WithFromTest {
 			await UserDto.from({ name: "OK", hp: "5", extra: 123 });
 		});
 	}
+
+	@Fact
+	public safeFrom_resolvesToResultInsteadOfThrowing() {
+		return UserDto.safeFrom({ name: "OK", hp: "0" }).then((res) => {
+			Assert.false(res.ok);
+			if (res.ok) return;
+			Assert.equal("hp", res.errors[0].property);
+		});
+	}
+
+	@Fact
+	public safeFrom_reportsNonTableInputInsteadOfRejecting() {
+		const pending = [UserDto.safeFrom(5), UserDto.safeFrom("x"), UserDto.safeFrom(undefined)];
+
+		return Promise.all(
+			pending.map((p) =>
+				p.then((res) => {
+					Assert.false(res.ok);
+					if (res.ok) return;
+					Assert.equal("IsObject", res.errors[0].details[0].code);
+				}),
+			),
+		);
+	}
+
+	@Fact
+	public safeFromSync_reportsNonTableInputInsteadOfThrowing() {
+		const results = [
+			UserDto.safeFromSync(5),
+			UserDto.safeFromSync("x"),
+			UserDto.safeFromSync(undefined),
+		];
+		for (const res of results) {
+			Assert.false(res.ok);
+			if (res.ok) return;
+			Assert.equal(1, res.errors.size());
+			Assert.equal("IsObject", res.errors[0].details[0].code);
+			Assert.equal("UserDto", res.errors[0].property);
+		}
+	}
+
+	@Fact
+	public fromSync_returnsInstanceOrThrows() {
+		const user = UserDto.fromSync({ name: "SYNC", hp: 3 });
+		Assert.equal("sync", user.name);
+		Assert.true(user instanceof UserDto);
+
+		Assert.throws(() => UserDto.fromSync({ name: "SYNC", hp: 0 }));
+	}
+
+	@Fact
+	public safeFromSync_returnsParseResult() {
+		const ok = UserDto.safeFromSync({ name: "A", hp: "2" });
+		Assert.true(ok.ok);
+		if (!ok.ok) return;
+		Assert.equal(2, ok.value.hp);
+
+		const bad = UserDto.safeFromSync({ name: "A", hp: "2", extra: 1 });
+		Assert.false(bad.ok);
+	}
+
+	@Fact
+	public is_guardsPlainTablesAndInstances() {
+		Assert.true(UserDto.is({ name: "a", hp: 2 }));
+		Assert.false(UserDto.is({ name: "a", hp: 0 }));
+		Assert.false(UserDto.is("a"));
+		// checked as-is: coercers do not run, so the guard holds for the value it was given
+		Assert.false(UserDto.is({ name: "a", hp: "2" }));
+
+		const user = UserDto.fromSync({ name: "a", hp: 2 });
+		Assert.true(UserDto.is(user));
+
+		const values: defined[] = [{ name: "a", hp: 2 }, { hp: 1 }];
+		Assert.equal(1, values.filter((v) => UserDto.is(v)).size());
+	}
+
+	@Fact
+	public check_reportsErrorsWithoutCommitting() {
+		Assert.empty(UserDto.check({ name: "a", hp: "3" }));
+
+		const errs = UserDto.check({ name: "a", hp: "0" });
+		Assert.equal(1, errs.size());
+		Assert.equal("hp", errs[0].property);
+
+		Assert.equal("IsObject", UserDto.check(5)[0].details[0].code);
+	}
 }
 
 export = WithFromTest;